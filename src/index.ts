@@ -1,25 +1,94 @@
-export { useEffectQuery } from './useEffectQuery';
-export { useRuntime } from './useRuntime';
-export { usePoll } from './usePoll';
+export { useEffectQuery, type EffectQueryOptions } from './useEffectQuery';
+export {
+  useQueryClient,
+  QueryClientProvider,
+  makeQueryClient,
+  type QueryClient,
+  type QueryKey,
+  type QueryState,
+  type QuerySnapshot,
+  type QueryUpdate,
+} from './useQueryClient';
+export { useEffectMutation, type EffectMutationOptions } from './useEffectMutation';
+export { useRuntime, MissingServiceError } from './useRuntime';
+export {
+  usePoll,
+  type Poll,
+  type PollOptions,
+  type PollErrorPolicy,
+} from './usePoll';
+export { useCron, type CronJob, type CronOptions } from './useCron';
+export { useRepeat, type Repeat, type RepeatOptions } from './useRepeat';
+export {
+  useCircuitBreaker,
+  CircuitBreakerProvider,
+  CircuitOpenError,
+  makeCircuitBreaker,
+  makeCircuitBreakerRegistry,
+  type CircuitBreaker,
+  type CircuitBreakerOptions,
+  type CircuitBreakerRegistry,
+  type CircuitBreakerState,
+  type CircuitState,
+} from './useCircuitBreaker';
 export { useEffectRef } from './useEffectRef';
 export { useSynchronizedRef } from './useSynchronizedRef';
 export { useSubscriptionRef } from './useSubscriptionRef';
 export { useDeferred } from './useDeferred';
 export { useQueue } from './useQueue';
-export { useEffectCallback } from './useEffectCallback';
-export { useFiber } from './useFiber';
+export {
+  useEffectCallback,
+  type EffectCallback,
+  type EffectCallbackOptions,
+  type CallbackConcurrency,
+  type RateLimitOptions,
+} from './useEffectCallback';
+export { useFiber, type FiberRunStatus } from './useFiber';
 export { useEffectRun } from './useEffectRun';
-export { useEffectResult, type EffectResult } from './useEffectResult';
+export {
+  useEffectResult,
+  exitToResult,
+  withTimeout,
+  isTimedOut,
+  type EffectResult,
+  type TimeoutOptions,
+} from './useEffectResult';
+export {
+  useEffectSuspense,
+  clearEffectSuspense,
+  type SuspenseKey,
+} from './useEffectSuspense';
+export {
+  EffectErrorBoundary,
+  useEffectErrorBoundary,
+  type EffectErrorBoundaryProps,
+  type EffectErrorBoundaryTags,
+} from './useEffectErrorBoundary';
 export { useStream } from './useStream';
 export { useStreamValue } from './useStreamValue';
-export { useRetry } from './useRetry';
+export {
+  useRetry,
+  retryPolicy,
+  type RetryAttempt,
+  type RetryResult,
+  type RetryPolicies,
+  type ErrorTag,
+} from './useRetry';
 export { useService, EffectProvider } from './useService';
 export { useConfig } from './useConfig';
 export { useLayer } from './useLayer';
 export { useConfigProvider, ConfigProvider } from './useConfigProvider';
 export { useEffectContext } from './useEffectContext';
 export { useRequest } from './useRequest';
-export { useSchedule } from './useSchedule';
+export {
+  useSchedule,
+  type ScheduleMode,
+  type ScheduleStats,
+  type ScheduleOptions,
+  type ScheduleResult,
+  type RetrySchedule,
+  type RepeatSchedule,
+} from './useSchedule';
 export { ProvideService } from './useProvideService';
 export { useCachedRequest } from './useCachedRequest';
 export { useManagedRuntime } from './useManagedRuntime';
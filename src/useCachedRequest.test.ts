@@ -349,4 +349,32 @@ describe('useCachedRequest', () => {
 
     vi.useFakeTimers(); // Restore fake timers
   });
+
+  it('should time out requests without caching them', async () => {
+    vi.useRealTimers();
+
+    let calls = 0;
+    const resolver = RequestResolver.fromEffect((_req: GetUser) => {
+      calls++;
+      return calls === 1
+        ? Effect.never
+        : Effect.succeed({ id: '1', name: 'User 1' });
+    });
+
+    const { result } = renderHook(() =>
+      useCachedRequest(resolver, { timeout: '20 millis' })
+    );
+
+    await expect(result.current.executePromise(GetUser({ id: '1' }))).rejects.toBeDefined();
+    await waitFor(() => {
+      expect(result.current.timedOut).toBe(true);
+    });
+    expect(result.current.getCacheStats().size).toBe(0);
+
+    const user = await result.current.executePromise(GetUser({ id: '1' }));
+    expect(user.name).toBe('User 1');
+    await waitFor(() => {
+      expect(result.current.timedOut).toBe(false);
+    });
+  });
 });
@@ -1,9 +1,11 @@
 import { useCallback, useState, useRef } from 'react';
+import * as Cause from 'effect/Cause';
 import * as Effect from 'effect/Effect';
 import * as Request from 'effect/Request';
 import * as RequestResolver from 'effect/RequestResolver';
 import * as Runtime from 'effect/Runtime';
 import * as Duration from 'effect/Duration';
+import { isTimeoutRejection, withTimeout } from './useEffectResult';
 
 interface CacheEntry<T> {
   value: T;
@@ -20,6 +22,9 @@ interface CacheStats {
  * React hook for cached Effect Request/RequestResolver
  * Adds caching with TTL management on top of request batching
  *
+ * With `timeout`, a request taking longer fails with a TimeoutException and
+ * is not cached; a call of `executePromise` rejected by it sets `timedOut`.
+ *
  * @param resolver - The RequestResolver that handles batching requests
  * @param options - Optional configuration including TTL, capacity, and callbacks
  * @returns Object containing execute, executePromise, cache management, and state
@@ -32,17 +37,22 @@ export function useCachedRequest<A extends Request.Request<any, any>>(
     runtime?: Runtime.Runtime<never>;
     onCacheHit?: (key: string) => void;
     onCacheMiss?: (key: string) => void;
+    timeout?: Duration.DurationInput;
   }
 ): {
-  execute: <E, R>(request: Request.Request<E, R>) => Effect.Effect<E, R>;
+  execute: <E, R>(
+    request: Request.Request<E, R>
+  ) => Effect.Effect<E, R | Cause.TimeoutException>;
   executePromise: <E, R>(request: Request.Request<E, R>) => Promise<E>;
   clearCache: (predicate?: (key: string) => boolean) => void;
   getCacheStats: () => CacheStats;
   loading: boolean;
   error: any | null;
+  timedOut: boolean;
 } {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<any | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
   const cacheRef = useRef(new Map<string, CacheEntry<any>>());
   const statsRef = useRef<CacheStats>({ hits: 0, misses: 0, size: 0 });
   const resolverRef = useRef(resolver);
@@ -125,30 +135,37 @@ export function useCachedRequest<A extends Request.Request<any, any>>(
     [options?.capacity, evictOldest]
   );
 
+  const timeout = options?.timeout;
+
   const execute = useCallback(
-    <E, R>(request: Request.Request<E, R>): Effect.Effect<E, R> => {
+    <E, R>(request: Request.Request<E, R>): Effect.Effect<E, R | Cause.TimeoutException> => {
       const cacheKey = getCacheKey(request);
       const cached = getCachedValue<E>(cacheKey);
 
       if (cached !== null) {
-        return Effect.succeed(cached) as Effect.Effect<E, R>;
+        return Effect.succeed(cached);
       }
 
-      return Effect.request(request, resolverRef.current as any).pipe(
+      // Only requests reaching the resolver can time out
+      return withTimeout(
+        Effect.request(request, resolverRef.current as any) as Effect.Effect<E, R>,
+        timeout
+      ).pipe(
         Effect.tap((result) =>
           Effect.sync(() => {
             setCachedValue(cacheKey, result);
           })
         )
-      ) as Effect.Effect<E, R>;
+      );
     },
-    [getCacheKey, getCachedValue, setCachedValue]
+    [getCacheKey, getCachedValue, setCachedValue, timeout]
   );
 
   const executePromise = useCallback(
     async <E, R>(request: Request.Request<E, R>): Promise<E> => {
       setLoading(true);
       setError(null);
+      setTimedOut(false);
 
       try {
         const effect = execute(request);
@@ -160,6 +177,7 @@ export function useCachedRequest<A extends Request.Request<any, any>>(
         return result;
       } catch (err) {
         setError(err);
+        setTimedOut(isTimeoutRejection(err));
         setLoading(false);
         throw err;
       }
@@ -196,5 +214,6 @@ export function useCachedRequest<A extends Request.Request<any, any>>(
     getCacheStats,
     loading,
     error,
+    timedOut,
   };
 }
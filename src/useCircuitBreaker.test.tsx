@@ -0,0 +1,240 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { act, render, renderHook, cleanup, screen, waitFor } from '@testing-library/react';
+import {
+  useCircuitBreaker,
+  makeCircuitBreaker,
+  makeCircuitBreakerRegistry,
+  CircuitBreakerProvider,
+  CircuitOpenError,
+  type CircuitBreakerRegistry,
+} from './useCircuitBreaker';
+import { useRetry } from './useRetry';
+import * as Effect from 'effect/Effect';
+import * as Exit from 'effect/Exit';
+import * as Fiber from 'effect/Fiber';
+import * as ManagedRuntime from 'effect/ManagedRuntime';
+import * as Schedule from 'effect/Schedule';
+import * as TestClock from 'effect/TestClock';
+import * as TestContext from 'effect/TestContext';
+import React from 'react';
+
+const fail = Effect.fail('backend down');
+
+function renderWithRegistry(registry: CircuitBreakerRegistry, children: React.ReactNode) {
+  return render(
+    <CircuitBreakerProvider registry={registry}>{children}</CircuitBreakerProvider>
+  );
+}
+
+describe('useCircuitBreaker', () => {
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+  });
+
+  it('should start closed and run protected effects', async () => {
+    const { result } = renderHook(() => useCircuitBreaker());
+
+    expect(result.current.state).toBe('closed');
+    expect(await Effect.runPromise(result.current.protect(Effect.succeed(42)))).toBe(42);
+    expect(result.current.failures).toBe(0);
+  });
+
+  it('should open after the threshold of consecutive failures', async () => {
+    const { result } = renderHook(() => useCircuitBreaker(undefined, { threshold: 2 }));
+
+    await act(() => Effect.runPromiseExit(result.current.protect(fail)));
+    expect(result.current.state).toBe('closed');
+    expect(result.current.failures).toBe(1);
+
+    await act(() => Effect.runPromiseExit(result.current.protect(fail)));
+    expect(result.current.state).toBe('open');
+    expect(result.current.openedAt).toBeInstanceOf(Date);
+    expect(result.current.retryAt).toBeInstanceOf(Date);
+  });
+
+  it('should reset the failure count after a success', async () => {
+    const breaker = makeCircuitBreaker({ threshold: 2 });
+
+    await Effect.runPromiseExit(breaker.protect(fail));
+    await Effect.runPromise(breaker.protect(Effect.succeed(1)));
+    await Effect.runPromiseExit(breaker.protect(fail));
+
+    expect(breaker.getState().state).toBe('closed');
+    expect(breaker.getState().failures).toBe(1);
+  });
+
+  it('should fail with CircuitOpenError without running the effect while open', async () => {
+    const breaker = makeCircuitBreaker({ threshold: 1 });
+    const backend = vi.fn(() => 'ok');
+
+    await Effect.runPromiseExit(breaker.protect(fail));
+    const exit = await Effect.runPromiseExit(breaker.protect(Effect.sync(backend)));
+
+    expect(backend).not.toHaveBeenCalled();
+    expect(exit).toEqual(Exit.fail(new CircuitOpenError({ retryAt: breaker.getState().retryAt })));
+  });
+
+  it('should half-open after the cooldown and close after a successful trial', async () => {
+    vi.useFakeTimers();
+    const { result } = renderHook(() =>
+      useCircuitBreaker(undefined, { threshold: 1, cooldown: '1 second' })
+    );
+
+    await act(() => Effect.runPromiseExit(result.current.protect(fail)));
+    expect(result.current.state).toBe('open');
+
+    await act(() => vi.advanceTimersByTimeAsync(1000));
+    expect(result.current.state).toBe('halfOpen');
+
+    await act(() => Effect.runPromise(result.current.protect(Effect.succeed('ok'))));
+    expect(result.current.state).toBe('closed');
+    expect(result.current.failures).toBe(0);
+  });
+
+  it('should time the cooldown with the Clock of the protected effects', async () => {
+    const runtime = ManagedRuntime.make(TestContext.TestContext);
+    const { result } = renderHook(() =>
+      useCircuitBreaker(undefined, { threshold: 1, cooldown: '1 minute' })
+    );
+
+    await act(() => runtime.runPromiseExit(result.current.protect(fail)));
+    expect(result.current.state).toBe('open');
+    // The TestClock starts at the epoch
+    expect(result.current.retryAt?.getTime()).toBe(60_000);
+
+    await act(() => runtime.runPromise(TestClock.adjust('59 seconds')));
+    expect(result.current.state).toBe('open');
+
+    await act(() => runtime.runPromise(TestClock.adjust('1 second')));
+    await waitFor(() => {
+      expect(result.current.state).toBe('halfOpen');
+    });
+
+    await act(() => runtime.runPromise(result.current.protect(Effect.succeed('ok'))));
+    expect(result.current.state).toBe('closed');
+    await runtime.dispose();
+  });
+
+  it('should half-open without subscribers once the cooldown has ended', async () => {
+    const runtime = ManagedRuntime.make(TestContext.TestContext);
+    const breaker = makeCircuitBreaker({ threshold: 1, cooldown: '1 second' });
+
+    await runtime.runPromiseExit(breaker.protect(fail));
+    await runtime.runPromise(TestClock.adjust('1 second'));
+    expect(breaker.getState().state).toBe('halfOpen');
+
+    await runtime.runPromise(breaker.protect(Effect.succeed('ok')));
+    expect(breaker.getState().state).toBe('closed');
+    await runtime.dispose();
+  });
+
+  it('should stop timing the cooldown when the last subscriber unmounts', async () => {
+    vi.useFakeTimers();
+    const { result, unmount } = renderHook(() =>
+      useCircuitBreaker(undefined, { threshold: 1, cooldown: '1 second' })
+    );
+
+    await act(() => Effect.runPromiseExit(result.current.protect(fail)));
+    expect(vi.getTimerCount()).toBe(1);
+
+    unmount();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should open again after a failed trial', async () => {
+    vi.useFakeTimers();
+    const breaker = makeCircuitBreaker({ threshold: 1, cooldown: '1 second' });
+
+    await Effect.runPromiseExit(breaker.protect(fail));
+    vi.advanceTimersByTime(1000);
+    expect(breaker.getState().state).toBe('halfOpen');
+
+    await Effect.runPromiseExit(breaker.protect(fail));
+    expect(breaker.getState().state).toBe('open');
+  });
+
+  it('should let a single trial run through while half-open', async () => {
+    vi.useFakeTimers();
+    const breaker = makeCircuitBreaker({ threshold: 1, cooldown: '1 second' });
+
+    await Effect.runPromiseExit(breaker.protect(fail));
+    vi.advanceTimersByTime(1000);
+
+    const trial = Effect.runFork(breaker.protect(Effect.never));
+    const exit = await Effect.runPromiseExit(breaker.protect(Effect.succeed(1)));
+    expect(Exit.isFailure(exit)).toBe(true);
+
+    // An interrupted trial lets the next one through
+    await Effect.runPromise(Fiber.interrupt(trial));
+    await Effect.runPromise(breaker.protect(Effect.succeed(1)));
+    expect(breaker.getState().state).toBe('closed');
+  });
+
+  it('should close when reset', async () => {
+    const { result } = renderHook(() => useCircuitBreaker(undefined, { threshold: 1 }));
+
+    await act(() => Effect.runPromiseExit(result.current.protect(fail)));
+    expect(result.current.state).toBe('open');
+
+    act(() => {
+      result.current.reset();
+    });
+    expect(result.current.state).toBe('closed');
+  });
+
+  it('should share a keyed circuit breaker between components', async () => {
+    const registry = makeCircuitBreakerRegistry();
+
+    function Status() {
+      const { state } = useCircuitBreaker('payments', { threshold: 1 });
+      return <div>status:{state}</div>;
+    }
+
+    renderWithRegistry(registry, [<Status key={1} />, <Status key={2} />]);
+    expect(screen.getAllByText('status:closed')).toHaveLength(2);
+
+    await act(() => Effect.runPromiseExit(registry.get('payments').protect(fail)));
+
+    await waitFor(() => {
+      expect(screen.getAllByText('status:open')).toHaveLength(2);
+    });
+  });
+
+  it('should throw with a key and no CircuitBreakerProvider', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => renderHook(() => useCircuitBreaker('payments'))).toThrow(
+      'useCircuitBreaker requires a CircuitBreakerProvider when a key is given'
+    );
+
+    consoleError.mockRestore();
+  });
+
+  it('should compose with useRetry without retrying an open circuit', async () => {
+    const backend = vi.fn(() => Effect.fail({ _tag: 'Unavailable' as const }));
+
+    const { result } = renderHook(() => ({
+      circuit: useCircuitBreaker(undefined, { threshold: 2 }),
+      retry: useRetry<never, { readonly _tag: 'Unavailable' } | CircuitOpenError>({
+        policies: {
+          Unavailable: Schedule.recurs(5),
+          CircuitOpenError: false,
+        },
+      }),
+    }));
+
+    const error = await act(() =>
+      Effect.runPromise(
+        Effect.flip(
+          result.current.retry.retry(result.current.circuit.protect(Effect.suspend(backend)))
+        )
+      )
+    );
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(backend).toHaveBeenCalledTimes(2);
+    expect(result.current.circuit.state).toBe('open');
+  });
+});
@@ -0,0 +1,364 @@
+import React, {
+  createContext,
+  useContext,
+  useState,
+  useSyncExternalStore,
+  ReactNode,
+  ReactElement,
+} from 'react';
+import * as Cause from 'effect/Cause';
+import * as Clock from 'effect/Clock';
+import * as Data from 'effect/Data';
+import * as Duration from 'effect/Duration';
+import * as Effect from 'effect/Effect';
+import * as Exit from 'effect/Exit';
+import * as Fiber from 'effect/Fiber';
+
+/**
+ * State of a circuit breaker
+ *
+ * - `closed`: effects run, and consecutive failures are counted
+ * - `open`: effects fail right away with a CircuitOpenError until the cooldown ends
+ * - `halfOpen`: a single trial run is let through; its success closes the
+ *   circuit, its failure opens it again
+ */
+export type CircuitState = 'closed' | 'open' | 'halfOpen';
+
+/**
+ * Options for a circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Consecutive failures that open the circuit (default 5)
+   */
+  threshold?: number;
+  /**
+   * How long the circuit stays open before letting a trial run through
+   * (default 30 seconds)
+   */
+  cooldown?: Duration.DurationInput;
+}
+
+/**
+ * Snapshot of a circuit breaker, shared by every subscriber
+ */
+export interface CircuitBreakerState {
+  state: CircuitState;
+  failures: number;
+  openedAt: Date | null;
+  /**
+   * When the open circuit lets a trial run through
+   */
+  retryAt: Date | null;
+}
+
+/**
+ * Raised by an effect protected by an open circuit, without running it
+ */
+export class CircuitOpenError extends Data.TaggedError('CircuitOpenError')<{
+  readonly retryAt: Date | null;
+}> {
+  get message(): string {
+    return this.retryAt
+      ? `Circuit open until ${this.retryAt.toISOString()}`
+      : 'Circuit open: a trial run is in progress';
+  }
+}
+
+/**
+ * Tracks the failures of the effects it protects, and stops running them
+ * while their backend is failing
+ */
+export interface CircuitBreaker {
+  /**
+   * Get the current state of the circuit
+   */
+  getState: () => CircuitBreakerState;
+  /**
+   * Register a listener called whenever the state changes
+   */
+  subscribe: (_listener: () => void) => () => void;
+  /**
+   * Wrap an effect so that it runs only while the circuit lets it through,
+   * recording its outcome
+   */
+  protect: <A, E, R>(
+    _effect: Effect.Effect<A, E, R>
+  ) => Effect.Effect<A, E | CircuitOpenError, R>;
+  /**
+   * Close the circuit and forget the failures
+   */
+  reset: () => void;
+}
+
+const closedState: CircuitBreakerState = {
+  state: 'closed',
+  failures: 0,
+  openedAt: null,
+  retryAt: null,
+};
+
+/**
+ * Create a CircuitBreaker
+ *
+ * Failures and defects count as failures; interruptions do not. The cooldown
+ * is timed with the Clock of the protected effects, so TestClock can drive
+ * it. The circuit becomes `halfOpen` once the cooldown has ended, when its
+ * state is read or an effect runs; while it has subscribers, it also wakes
+ * them up at that time, so that the UI can offer to try again.
+ *
+ * @param options - Failure threshold and cooldown
+ * @returns A new, closed CircuitBreaker
+ */
+export function makeCircuitBreaker(options?: CircuitBreakerOptions): CircuitBreaker {
+  const threshold = Math.max(1, options?.threshold ?? 5);
+  const cooldown = Duration.toMillis(options?.cooldown ?? Duration.seconds(30));
+  const listeners = new Set<() => void>();
+
+  let snapshot = closedState;
+  let trialRunning = false;
+  // Clock of the latest protected effect, timing the cooldown
+  let clock: Clock.Clock | null = null;
+  // Sleeps until the end of the cooldown while the circuit has subscribers
+  let wakeUp: Fiber.RuntimeFiber<void> | null = null;
+
+  const setState = (next: CircuitBreakerState) => {
+    snapshot = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  const halfOpened = (): CircuitBreakerState => ({
+    ...snapshot,
+    state: 'halfOpen',
+    retryAt: null,
+  });
+
+  const cooledDown = () =>
+    snapshot.state === 'open' &&
+    snapshot.retryAt !== null &&
+    clock !== null &&
+    clock.unsafeCurrentTimeMillis() >= snapshot.retryAt.getTime();
+
+  const cancelWakeUp = () => {
+    if (wakeUp !== null) {
+      Effect.runFork(Fiber.interrupt(wakeUp));
+      wakeUp = null;
+    }
+  };
+
+  const scheduleWakeUp = () => {
+    if (wakeUp !== null || listeners.size === 0 || clock === null) return;
+    if (snapshot.state !== 'open' || snapshot.retryAt === null) return;
+
+    const remaining = snapshot.retryAt.getTime() - clock.unsafeCurrentTimeMillis();
+    wakeUp = Effect.runFork(
+      clock.sleep(Duration.millis(Math.max(0, remaining))).pipe(
+        Effect.zipRight(
+          Effect.sync(() => {
+            wakeUp = null;
+            setState(snapshot.state === 'open' ? halfOpened() : snapshot);
+          })
+        )
+      )
+    );
+  };
+
+  const open = (failures: number, now: number) => {
+    cancelWakeUp();
+    trialRunning = false;
+    setState({
+      state: 'open',
+      failures,
+      openedAt: new Date(now),
+      retryAt: new Date(now + cooldown),
+    });
+    scheduleWakeUp();
+  };
+
+  const close = () => {
+    cancelWakeUp();
+    trialRunning = false;
+    setState(closedState);
+  };
+
+  // Whether an effect may run now, and whether it is the trial run
+  const acquire = (): { trial: boolean } | null => {
+    if (cooledDown()) {
+      cancelWakeUp();
+      setState(halfOpened());
+    }
+
+    switch (snapshot.state) {
+      case 'closed':
+        return { trial: false };
+      case 'open':
+        return null;
+      case 'halfOpen':
+        if (trialRunning) return null;
+        trialRunning = true;
+        return { trial: true };
+    }
+  };
+  const record = (exit: Exit.Exit<unknown, unknown>, trial: boolean, now: number) => {
+    if (Exit.isSuccess(exit)) {
+      if (trial || snapshot.failures > 0) close();
+      return;
+    }
+
+    // Interrupted runs say nothing about the backend
+    if (Cause.isInterruptedOnly(exit.cause)) {
+      if (trial) trialRunning = false;
+      return;
+    }
+
+    // A run started before the circuit opened does not change it
+    if (snapshot.state === 'open' || (snapshot.state === 'halfOpen' && !trial)) return;
+
+    const failures = snapshot.failures + 1;
+    if (trial || failures >= threshold) {
+      open(failures, now);
+    } else {
+      setState({ ...snapshot, failures });
+    }
+  };
+
+  return {
+    getState: () => {
+      // Subscribers are woken up separately, as this runs during rendering
+      if (cooledDown()) {
+        snapshot = halfOpened();
+      }
+      return snapshot;
+    },
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      scheduleWakeUp();
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) cancelWakeUp();
+      };
+    },
+
+    protect: <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+      Effect.clockWith((current): Effect.Effect<A, E | CircuitOpenError, R> => {
+        clock = current;
+        const permit = acquire();
+        if (!permit) {
+          return Effect.fail(new CircuitOpenError({ retryAt: snapshot.retryAt }));
+        }
+        return effect.pipe(
+          Effect.onExit((exit) =>
+            Effect.sync(() => record(exit, permit.trial, current.unsafeCurrentTimeMillis()))
+          )
+        );
+      }),
+
+    reset: close,
+  };
+}
+
+/**
+ * Circuit breakers shared by key
+ */
+export interface CircuitBreakerRegistry {
+  /**
+   * Get the circuit breaker of a key, creating it with the given options
+   * the first time the key is used
+   */
+  get: (_key: string, _options?: CircuitBreakerOptions) => CircuitBreaker;
+}
+
+/**
+ * Create a CircuitBreakerRegistry
+ *
+ * @returns A new, empty CircuitBreakerRegistry
+ */
+export function makeCircuitBreakerRegistry(): CircuitBreakerRegistry {
+  const breakers = new Map<string, CircuitBreaker>();
+
+  return {
+    get: (key, options) => {
+      let breaker = breakers.get(key);
+      if (!breaker) {
+        breaker = makeCircuitBreaker(options);
+        breakers.set(key, breaker);
+      }
+      return breaker;
+    },
+  };
+}
+
+const CircuitBreakerContext = createContext<CircuitBreakerRegistry | null>(null);
+
+/**
+ * Provide a CircuitBreakerRegistry to the component tree
+ *
+ * Components calling `useCircuitBreaker` with the same key below the provider
+ * share one circuit breaker.
+ *
+ * @param registry - The CircuitBreakerRegistry to provide
+ * @param children - React children to render
+ * @returns ReactElement
+ */
+export function CircuitBreakerProvider({
+  registry,
+  children,
+}: {
+  registry: CircuitBreakerRegistry;
+  children: ReactNode;
+}): ReactElement {
+  return (
+    <CircuitBreakerContext.Provider value={registry}>
+      {children}
+    </CircuitBreakerContext.Provider>
+  );
+}
+
+/**
+ * Protect effects calling a flaky backend with a circuit breaker
+ *
+ * `protect` wraps an effect so that it fails right away with a
+ * CircuitOpenError while the circuit is open, instead of calling a backend
+ * that is already failing. The circuit opens after `threshold` consecutive
+ * failures and lets a trial run through after `cooldown`.
+ *
+ * With a key, the circuit breaker is shared by every component using the same
+ * key below the nearest CircuitBreakerProvider, and the options of the first
+ * component creating it apply. Without a key, the circuit breaker belongs to
+ * the component.
+ *
+ * A protected effect can be retried with `useRetry`; give CircuitOpenError a
+ * `false` retry policy so that an open circuit is not retried.
+ *
+ * @param key - Optional key sharing the circuit breaker
+ * @param options - Failure threshold and cooldown
+ * @returns Object containing the state of the circuit, protect, reset and the circuit breaker
+ * @throws Error if a key is given without a CircuitBreakerProvider above the component
+ */
+export function useCircuitBreaker(
+  key?: string,
+  options?: CircuitBreakerOptions
+): CircuitBreakerState & {
+  protect: CircuitBreaker['protect'];
+  reset: () => void;
+  breaker: CircuitBreaker;
+} {
+  const registry = useContext(CircuitBreakerContext);
+
+  if (key !== undefined && !registry) {
+    throw new Error('useCircuitBreaker requires a CircuitBreakerProvider when a key is given');
+  }
+
+  const [local] = useState(() => makeCircuitBreaker(options));
+  const breaker = key !== undefined && registry ? registry.get(key, options) : local;
+
+  const state = useSyncExternalStore(breaker.subscribe, breaker.getState);
+
+  return {
+    ...state,
+    protect: breaker.protect,
+    reset: breaker.reset,
+    breaker,
+  };
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { renderHook, waitFor, cleanup, act } from '@testing-library/react';
+import { useCron } from './useCron';
+import { RuntimeProvider } from './useRuntimeContext';
+import * as Effect from 'effect/Effect';
+import * as ManagedRuntime from 'effect/ManagedRuntime';
+import * as TestClock from 'effect/TestClock';
+import * as TestContext from 'effect/TestContext';
+import React from 'react';
+
+const HOUR = 60 * 60 * 1000;
+
+// The TestClock starts at the epoch, 1970-01-01T00:00:00Z
+function makeTestRuntime() {
+  const runtime = ManagedRuntime.make(TestContext.TestContext);
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <RuntimeProvider runtime={runtime}>{children}</RuntimeProvider>
+  );
+  const adjust = (duration: Parameters<typeof TestClock.adjust>[0]) =>
+    act(() => runtime.runPromise(TestClock.adjust(duration)));
+
+  return { runtime, wrapper, adjust };
+}
+
+describe('useCron', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('should expose the next run without running on mount', async () => {
+    const { wrapper } = makeTestRuntime();
+    let runs = 0;
+
+    const { result } = renderHook(
+      () => useCron(Effect.sync(() => ++runs), '0 * * * *', [], { timezone: 'UTC' }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.nextRun?.getTime()).toBe(HOUR);
+    });
+    expect(runs).toBe(0);
+    expect(result.current.result._tag).toBe('Initial');
+    expect(result.current.lastRun).toBeNull();
+  });
+
+  it('should run the effect at each match', async () => {
+    const { wrapper, adjust } = makeTestRuntime();
+    let runs = 0;
+
+    const { result } = renderHook(
+      () => useCron(Effect.sync(() => ++runs), '0 * * * *', [], { timezone: 'UTC' }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.nextRun).not.toBeNull();
+    });
+
+    await adjust('1 hour');
+    await waitFor(() => {
+      expect(result.current.data).toBe(1);
+    });
+    expect(result.current.lastRun?.getTime()).toBe(HOUR);
+    expect(result.current.nextRun?.getTime()).toBe(2 * HOUR);
+
+    await adjust('1 hour');
+    await waitFor(() => {
+      expect(result.current.data).toBe(2);
+    });
+  });
+
+  it('should evaluate the expression in the time zone', async () => {
+    const { wrapper } = makeTestRuntime();
+
+    // The epoch is 09:00 in Tokyo, so the next 09:00 is a day later
+    const { result } = renderHook(
+      () => useCron(Effect.void, '0 9 * * *', [], { timezone: 'Asia/Tokyo' }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.nextRun?.getTime()).toBe(24 * HOUR);
+    });
+  });
+
+  it('should keep the data of the last success after a failure', async () => {
+    const { wrapper, adjust } = makeTestRuntime();
+    let runs = 0;
+    const effect = Effect.suspend(() =>
+      ++runs === 1 ? Effect.succeed('report') : Effect.fail('unavailable')
+    );
+
+    const { result } = renderHook(
+      () => useCron(effect, '0 * * * *', [], { timezone: 'UTC' }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.nextRun).not.toBeNull();
+    });
+
+    await adjust('1 hour');
+    await adjust('1 hour');
+
+    await waitFor(() => {
+      expect(result.current.error).toBe('unavailable');
+    });
+    expect(result.current.data).toBe('report');
+    expect(result.current.result._tag).toBe('Failure');
+  });
+
+  it('should interrupt the running effect on unmount', async () => {
+    const { wrapper, adjust } = makeTestRuntime();
+    let interrupted = false;
+    const effect = Effect.never.pipe(
+      Effect.onInterrupt(() =>
+        Effect.sync(() => {
+          interrupted = true;
+        })
+      )
+    );
+
+    const { result, unmount } = renderHook(
+      () => useCron(effect, '0 * * * *', [], { timezone: 'UTC' }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.nextRun).not.toBeNull();
+    });
+    await adjust('1 hour');
+    await waitFor(() => {
+      expect(result.current.loading).toBe(true);
+    });
+
+    unmount();
+
+    await waitFor(() => {
+      expect(interrupted).toBe(true);
+    });
+  });
+
+  it('should throw on an invalid expression', () => {
+    expect(() => renderHook(() => useCron(Effect.void, 'not a cron'))).toThrow();
+  });
+});
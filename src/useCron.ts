@@ -0,0 +1,132 @@
+import { useEffect as useReactEffect, useRef, useState } from 'react';
+import * as Effect from 'effect/Effect';
+import * as Clock from 'effect/Clock';
+import * as Cron from 'effect/Cron';
+import * as DateTime from 'effect/DateTime';
+import * as Either from 'effect/Either';
+import * as Equal from 'effect/Equal';
+import * as Exit from 'effect/Exit';
+import * as Fiber from 'effect/Fiber';
+import * as Runtime from 'effect/Runtime';
+import * as Schedule from 'effect/Schedule';
+import { useRuntime, reportMissingServices } from './useRuntime';
+import { exitToResult, resultError, type EffectResult } from './useEffectResult';
+
+/**
+ * Options for useCron
+ */
+export interface CronOptions {
+  /**
+   * Time zone of a cron expression given as a string
+   */
+  timezone?: DateTime.TimeZone | string;
+}
+
+/**
+ * Returned by useCron
+ *
+ * `result` is the outcome of the latest run (`Initial` until the first one),
+ * and `data` the value of the latest successful run.
+ */
+export interface CronJob<A, E> {
+  data: A | null;
+  error: E | null;
+  result: EffectResult<A, E>;
+  loading: boolean;
+  nextRun: Date | null;
+  lastRun: Date | null;
+}
+
+/**
+ * Run an Effect each time a cron expression matches, on the runtime of the nearest provider
+ *
+ * The effect does not run on mount, only at the times matched by the
+ * expression, evaluated in `timezone` (the local time zone by default). The
+ * times are read from the Clock of the runtime, so a TestClock provided by
+ * the runtime controls them in tests.
+ *
+ * The running effect is interrupted when the component unmounts, the
+ * expression or the deps change, so its finalizers run.
+ *
+ * @param effect - The Effect to run
+ * @param expression - Cron expression, or a parsed Cron
+ * @param deps - Dependencies array
+ * @param options - Time zone of a cron expression
+ * @returns Object containing the result of the latest run and the time of the next one
+ * @throws Cron.ParseError if the expression is invalid
+ */
+export function useCron<A, E, R = never>(
+  effect: Effect.Effect<A, E, R>,
+  expression: string | Cron.Cron,
+  deps: React.DependencyList = [],
+  options?: CronOptions
+): CronJob<A, E> {
+  const runtime = useRuntime<R>();
+  const [state, setState] = useState<CronJob<A, E>>({
+    data: null,
+    error: null,
+    result: { _tag: 'Initial' },
+    loading: false,
+    nextRun: null,
+    lastRun: null,
+  });
+
+  // Keep the same Cron while the expression is equal, so that the job does
+  // not restart on every render
+  const parsed = Cron.isCron(expression)
+    ? expression
+    : Cron.unsafeParse(expression, options?.timezone);
+  const cronRef = useRef(parsed);
+  if (!Equal.equals(cronRef.current, parsed)) {
+    cronRef.current = parsed;
+  }
+  const cron = cronRef.current;
+
+  useReactEffect(() => {
+    let cancelled = false;
+
+    const update = (f: (_prev: CronJob<A, E>) => CronJob<A, E>) =>
+      Effect.sync(() => {
+        if (!cancelled) setState(f);
+      });
+
+    const job = Effect.gen(function* () {
+      const driver = yield* Schedule.driver(Schedule.cron(cron));
+
+      while (true) {
+        const now = yield* Clock.currentTimeMillis;
+        yield* update((prev) => ({ ...prev, nextRun: Cron.next(cron, new Date(now)) }));
+
+        // Sleep until the next match
+        const next = yield* Effect.either(driver.next(undefined));
+        if (Either.isLeft(next)) return;
+
+        const startedAt = yield* Clock.currentTimeMillis;
+        yield* update((prev) => ({
+          ...prev,
+          loading: true,
+          lastRun: new Date(startedAt),
+        }));
+
+        const exit = yield* Effect.exit(reportMissingServices(effect));
+        const result = exitToResult(exit);
+        yield* update((prev) => ({
+          ...prev,
+          data: Exit.isSuccess(exit) ? exit.value : prev.data,
+          error: resultError(result),
+          result,
+          loading: false,
+        }));
+      }
+    });
+
+    const fiber = Runtime.runFork(runtime)(job);
+
+    return () => {
+      cancelled = true;
+      Effect.runFork(Fiber.interrupt(fiber));
+    };
+  }, [...deps, cron, runtime]);
+
+  return state;
+}
@@ -1,7 +1,19 @@
 import { describe, it, expect, afterEach, vi } from 'vitest';
-import { renderHook, waitFor, cleanup } from '@testing-library/react';
+import { renderHook, waitFor, cleanup, act } from '@testing-library/react';
 import { useEffectCallback } from './useEffectCallback';
 import * as Effect from 'effect/Effect';
+import * as Context from 'effect/Context';
+import * as Layer from 'effect/Layer';
+import * as Exit from 'effect/Exit';
+import * as Cause from 'effect/Cause';
+import * as Runtime from 'effect/Runtime';
+import React from 'react';
+import { EffectProvider } from './useService';
+
+class Calculator extends Context.Tag('Calculator')<
+  Calculator,
+  { readonly double: (_n: number) => number }
+>() {}
 
 describe('useEffectCallback', () => {
   afterEach(() => {
@@ -259,4 +271,404 @@ describe('useEffectCallback', () => {
       expect(result.current.data).toBe('success');
     });
   });
+
+  it('should run effects that require services from the nearest provider', async () => {
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(EffectProvider, {
+        layer: Layer.succeed(Calculator, { double: (n) => n * 2 }),
+        children,
+      });
+
+    const { result } = renderHook(
+      () =>
+        useEffectCallback((n: number) =>
+          Effect.map(Calculator, (calculator) => calculator.double(n))
+        ),
+      { wrapper }
+    );
+
+    await result.current.execute(21);
+
+    await waitFor(() => {
+      expect(result.current.data).toBe(42);
+    });
+  });
+
+  describe('results', () => {
+    it('should resolve execute with the Exit of the call', async () => {
+      const { result } = renderHook(() =>
+        useEffectCallback((n: number) =>
+          n > 0 ? Effect.succeed(n * 2) : Effect.fail('negative' as const)
+        )
+      );
+
+      let success!: Exit.Exit<number, 'negative' | Cause.TimeoutException>;
+      let failure!: Exit.Exit<number, 'negative' | Cause.TimeoutException>;
+      await act(async () => {
+        success = await result.current.execute(21);
+        failure = await result.current.execute(-1);
+      });
+
+      expect(success).toEqual(Exit.succeed(42));
+      expect(Exit.isFailure(failure) && Cause.failureOption(failure.cause)).toEqual(
+        Cause.failureOption(Cause.fail('negative'))
+      );
+    });
+
+    it('should resolve executeOrThrow with the value or reject with the Cause', async () => {
+      const { result } = renderHook(() =>
+        useEffectCallback((n: number) =>
+          n > 0 ? Effect.succeed(n * 2) : Effect.fail('negative')
+        )
+      );
+
+      let value!: number;
+      let thrown: unknown;
+      await act(async () => {
+        value = await result.current.executeOrThrow(21);
+        await result.current.executeOrThrow(-1).catch((error: unknown) => {
+          thrown = error;
+        });
+      });
+
+      expect(value).toBe(42);
+      expect(Runtime.isFiberFailure(thrown)).toBe(true);
+      expect(
+        Runtime.isFiberFailure(thrown) &&
+          Cause.failureOption(thrown[Runtime.FiberFailureCauseId])
+      ).toEqual(Cause.failureOption(Cause.fail('negative')));
+      expect(result.current.error).toBe('negative');
+    });
+
+    it('should expose defects separately from errors', async () => {
+      const boom = new Error('boom');
+      const { result } = renderHook(() => useEffectCallback(() => Effect.die(boom)));
+
+      await act(() => result.current.execute());
+
+      expect(result.current.defect).toBe(boom);
+      expect(result.current.error).toBeNull();
+      expect(result.current.interrupted).toBe(false);
+    });
+
+    it('should expose interruption of the latest call', async () => {
+      const { result } = renderHook(() => useEffectCallback(() => Effect.interrupt));
+
+      await act(() => result.current.execute());
+
+      expect(result.current.interrupted).toBe(true);
+      expect(result.current.error).toBeNull();
+      expect(result.current.defect).toBeNull();
+    });
+
+    it('should resolve calls ignored by exhaust with an interruption', async () => {
+      const { result } = renderHook(() =>
+        useEffectCallback(() => Effect.delay(Effect.succeed(1), '20 millis'), {
+          concurrency: 'exhaust',
+        })
+      );
+
+      let ignored!: Exit.Exit<number, Cause.TimeoutException>;
+      await act(async () => {
+        const first = result.current.execute();
+        ignored = await result.current.execute();
+        await first;
+      });
+
+      expect(Exit.isInterrupted(ignored)).toBe(true);
+      expect(result.current.data).toBe(1);
+      expect(result.current.interrupted).toBe(false);
+    });
+  });
+
+  describe('concurrency', () => {
+    const delayed = (value: number, ms: number) =>
+      Effect.delay(Effect.succeed(value), `${ms} millis`);
+
+    it('should not let an older call overwrite a newer result by default', async () => {
+      const onSuccess = vi.fn();
+      const { result } = renderHook(() =>
+        useEffectCallback((value: number, ms: number) => delayed(value, ms), {
+          onSuccess,
+        })
+      );
+
+      await act(() =>
+        Promise.all([result.current.execute(1, 60), result.current.execute(2, 10)])
+      );
+
+      expect(result.current.data).toBe(2);
+      expect(result.current.loading).toBe(false);
+      expect(onSuccess).toHaveBeenCalledTimes(2);
+    });
+
+    it('should interrupt the running call with switch', async () => {
+      const interrupted = vi.fn();
+      const { result } = renderHook(() =>
+        useEffectCallback(
+          (value: number) =>
+            delayed(value, 30).pipe(Effect.onInterrupt(() => Effect.sync(interrupted))),
+          { concurrency: 'switch' }
+        )
+      );
+
+      await act(() =>
+        Promise.all([result.current.execute(1), result.current.execute(2)])
+      );
+
+      expect(interrupted).toHaveBeenCalledTimes(1);
+      expect(result.current.data).toBe(2);
+      expect(result.current.loading).toBe(false);
+    });
+
+    it('should ignore calls while running with exhaust', async () => {
+      const run = vi.fn();
+      const { result } = renderHook(() =>
+        useEffectCallback(
+          (value: number) => Effect.tap(delayed(value, 30), () => Effect.sync(run)),
+          { concurrency: 'exhaust' }
+        )
+      );
+
+      await act(() =>
+        Promise.all([result.current.execute(1), result.current.execute(2)])
+      );
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(result.current.data).toBe(1);
+
+      await act(() => result.current.execute(3));
+
+      expect(result.current.data).toBe(3);
+    });
+
+    it('should run calls one after another with queue', async () => {
+      const order: string[] = [];
+      const { result } = renderHook(() =>
+        useEffectCallback(
+          (value: number, ms: number) =>
+            Effect.sync(() => order.push(`start-${value}`)).pipe(
+              Effect.zipRight(delayed(value, ms)),
+              Effect.tap(() => Effect.sync(() => order.push(`end-${value}`)))
+            ),
+          { concurrency: 'queue' }
+        )
+      );
+
+      await act(() =>
+        Promise.all([result.current.execute(1, 30), result.current.execute(2, 10)])
+      );
+
+      expect(order).toEqual(['start-1', 'end-1', 'start-2', 'end-2']);
+      expect(result.current.data).toBe(2);
+    });
+
+    it('should limit parallel calls with merge and maxConcurrent', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      const { result } = renderHook(() =>
+        useEffectCallback(
+          (value: number) =>
+            Effect.acquireUseRelease(
+              Effect.sync(() => {
+                running++;
+                maxRunning = Math.max(maxRunning, running);
+              }),
+              () => delayed(value, 20),
+              () =>
+                Effect.sync(() => {
+                  running--;
+                })
+            ),
+          { concurrency: 'merge', maxConcurrent: 2 }
+        )
+      );
+
+      await act(() => Promise.all([1, 2, 3, 4, 5].map((n) => result.current.execute(n))));
+
+      expect(maxRunning).toBe(2);
+      expect(result.current.data).toBe(5);
+    });
+
+    it('should interrupt running calls on unmount', async () => {
+      const interrupted = vi.fn();
+      const { result, unmount } = renderHook(() =>
+        useEffectCallback(() =>
+          Effect.never.pipe(Effect.onInterrupt(() => Effect.sync(interrupted)))
+        )
+      );
+
+      act(() => {
+        result.current.execute();
+      });
+      unmount();
+
+      await waitFor(() => {
+        expect(interrupted).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  it('should expose the result of the latest call', async () => {
+    const { result } = renderHook(() =>
+      useEffectCallback((fail: boolean) =>
+        fail ? Effect.fail('rejected') : Effect.succeed('ok')
+      )
+    );
+
+    expect(result.current.result._tag).toBe('Initial');
+
+    await act(() => result.current.execute(true));
+
+    expect(result.current.result._tag).toBe('Failure');
+    if (result.current.result._tag === 'Failure') {
+      expect(result.current.result.error).toBe('rejected');
+      expect(Cause.failures(result.current.result.cause)).toHaveLength(1);
+    }
+
+    await act(() => result.current.execute(false));
+
+    expect(result.current.result).toEqual({ _tag: 'Success', value: 'ok' });
+  });
+
+  describe('cancellation', () => {
+    // A promise that only settles when its AbortSignal aborts
+    const abortable = (onAbort: () => void) =>
+      Effect.tryPromise(
+        (signal) =>
+          new Promise<never>((_, reject) => {
+            signal.addEventListener('abort', () => {
+              onAbort();
+              reject(new Error('aborted'));
+            });
+          })
+      );
+
+    it('should interrupt the running call with cancel', async () => {
+      const aborted = vi.fn();
+      const { result } = renderHook(() => useEffectCallback(() => abortable(aborted)));
+
+      let promise!: Promise<Exit.Exit<never, unknown>>;
+      act(() => {
+        promise = result.current.execute();
+      });
+      expect(result.current.loading).toBe(true);
+
+      act(() => {
+        result.current.cancel();
+      });
+
+      let exit!: Exit.Exit<never, unknown>;
+      await act(async () => {
+        exit = await promise;
+      });
+
+      expect(aborted).toHaveBeenCalledTimes(1);
+      expect(Exit.isInterrupted(exit)).toBe(true);
+      expect(result.current.interrupted).toBe(true);
+      expect(result.current.error).toBeNull();
+      expect(result.current.loading).toBe(false);
+    });
+
+    it('should abort the signal of Effect.tryPromise on unmount', async () => {
+      const aborted = vi.fn();
+      const { result, unmount } = renderHook(() =>
+        useEffectCallback(() => abortable(aborted))
+      );
+
+      act(() => {
+        result.current.execute();
+      });
+      unmount();
+
+      await waitFor(() => {
+        expect(aborted).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should only run the latest of a burst of calls with debounce', async () => {
+      const run = vi.fn((query: string) => query);
+      const { result } = renderHook(() =>
+        useEffectCallback((query: string) => Effect.sync(() => run(query)), {
+          debounce: '30 millis',
+        })
+      );
+
+      let first!: Promise<Exit.Exit<string, Cause.TimeoutException>>;
+      let last!: Promise<Exit.Exit<string, Cause.TimeoutException>>;
+      act(() => {
+        first = result.current.execute('a');
+        result.current.execute('ab');
+        last = result.current.execute('abc');
+      });
+      expect(result.current.loading).toBe(true);
+
+      await act(async () => {
+        await last;
+      });
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(run).toHaveBeenCalledWith('abc');
+      expect(Exit.isInterrupted(await first)).toBe(true);
+      expect(result.current.data).toBe('abc');
+      expect(result.current.loading).toBe(false);
+    });
+
+    it('should run the first call and then the latest one with throttle', async () => {
+      const run = vi.fn((query: string) => query);
+      const { result } = renderHook(() =>
+        useEffectCallback((query: string) => Effect.sync(() => run(query)), {
+          throttle: '100 millis',
+        })
+      );
+
+      await act(() => result.current.execute('a'));
+      expect(run).toHaveBeenCalledWith('a');
+
+      let last!: Promise<Exit.Exit<string, Cause.TimeoutException>>;
+      act(() => {
+        result.current.execute('ab');
+        last = result.current.execute('abc');
+      });
+      expect(run).toHaveBeenCalledTimes(1);
+
+      await act(async () => {
+        await last;
+      });
+
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(run).toHaveBeenLastCalledWith('abc');
+      expect(result.current.data).toBe('abc');
+    });
+  });
+
+  describe('timeout', () => {
+    it('should fail a call running longer than the timeout', async () => {
+      const onFailure = vi.fn();
+      const { result } = renderHook(() =>
+        useEffectCallback((ms: number) => Effect.sleep(ms).pipe(Effect.as(ms)), {
+          timeout: '30 millis',
+          onFailure,
+        })
+      );
+
+      let exit!: Exit.Exit<number, Cause.TimeoutException>;
+      await act(async () => {
+        exit = await result.current.execute(1000);
+      });
+
+      expect(Exit.isFailure(exit)).toBe(true);
+      expect(result.current.timedOut).toBe(true);
+      expect(result.current.error).toBeInstanceOf(Cause.TimeoutException);
+      expect(onFailure).not.toHaveBeenCalled();
+
+      await act(async () => {
+        await result.current.execute(1);
+      });
+      expect(result.current.timedOut).toBe(false);
+      expect(result.current.data).toBe(1);
+    });
+  });
 });
@@ -1,68 +1,296 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import * as Effect from 'effect/Effect';
 import * as Exit from 'effect/Exit';
 import * as Cause from 'effect/Cause';
+import * as Duration from 'effect/Duration';
+import * as Option from 'effect/Option';
+import * as Fiber from 'effect/Fiber';
+import * as FiberId from 'effect/FiberId';
+import * as Runtime from 'effect/Runtime';
+import { useRuntime, reportMissingServices } from './useRuntime';
+import {
+  exitToResult,
+  isTimedOut,
+  resultError,
+  withTimeout,
+  type EffectResult,
+  type TimeoutOptions,
+} from './useEffectResult';
 
+/**
+ * How useEffectCallback handles execute calls made while a previous call runs
+ *
+ * - `switch`: interrupt the running calls and start the new one
+ * - `exhaust`: ignore the new call
+ * - `queue`: run the new call after the running ones
+ * - `merge`: run the calls in parallel, at most `maxConcurrent` at a time
+ */
+export type CallbackConcurrency = 'switch' | 'exhaust' | 'queue' | 'merge';
+
+/**
+ * Options delaying the start of the effects run by a hook
+ *
+ * - `debounce`: start each run only after this long without a newer run
+ * - `throttle`: start runs at most once per this duration
+ */
+export interface RateLimitOptions {
+  debounce?: Duration.DurationInput;
+  throttle?: Duration.DurationInput;
+}
+
+/**
+ * Wrap the effects run by a hook so that they start according to the
+ * `debounce` and `throttle` options
+ *
+ * The wait is computed when the fiber starts; the hook interrupts the fiber
+ * of a superseded run, so a run interrupted while waiting never runs its
+ * effect.
+ *
+ * @param options - Debounce and throttle durations
+ * @returns Function delaying the start of an effect
+ */
+export function useRateLimit(
+  options?: RateLimitOptions
+): <A, E, R>(_effect: Effect.Effect<A, E, R>) => Effect.Effect<A, E, R> {
+  const debounceMs = Duration.toMillis(options?.debounce ?? 0);
+  const throttleMs = Duration.toMillis(options?.throttle ?? 0);
+  const lastStartRef = useRef<number | null>(null);
+
+  return useCallback(
+    <A, E, R>(effect: Effect.Effect<A, E, R>) => {
+      if (debounceMs <= 0 && throttleMs <= 0) return effect;
+
+      const start = Effect.sync(() => {
+        lastStartRef.current = Date.now();
+      });
+
+      return Effect.suspend(() => {
+        const lastStart = lastStartRef.current;
+        const wait = Math.max(
+          debounceMs,
+          lastStart === null ? 0 : lastStart + throttleMs - Date.now()
+        );
+
+        return wait > 0
+          ? Effect.sleep(wait).pipe(Effect.zipRight(start), Effect.zipRight(effect))
+          : Effect.zipRight(start, effect);
+      });
+    },
+    [debounceMs, throttleMs]
+  );
+}
+
+/**
+ * Options for useEffectCallback
+ */
+export interface EffectCallbackOptions<A, E> extends RateLimitOptions, TimeoutOptions {
+  onSuccess?: (_value: A) => void;
+  onFailure?: (_error: E) => void;
+  concurrency?: CallbackConcurrency;
+  maxConcurrent?: number;
+}
+
+/**
+ * Returned by useEffectCallback
+ *
+ * `result` is the outcome of the latest completed call; `error` holds its
+ * expected failure, `defect` the unexpected error it died with,
+ * `interrupted` is true when it was interrupted, and `timedOut` when it
+ * failed with a TimeoutException.
+ */
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
-export function useEffectCallback<A, E = never, Args extends any[] = []>(
-  createEffect: (..._args: Args) => Effect.Effect<A, E>,
-  options?: {
-    onSuccess?: (_value: A) => void;
-    onFailure?: (_error: E) => void;
-  }
-): {
-  execute: (..._args: Args) => Promise<void>;
+export interface EffectCallback<A, E, Args extends any[]> {
+  /**
+   * Run the effect; resolves with its Exit, which is an interruption when
+   * the call is ignored by the `exhaust` strategy
+   */
+  execute: (..._args: Args) => Promise<Exit.Exit<A, E>>;
+  /**
+   * Run the effect; resolves with its value, or rejects with a FiberFailure
+   * carrying its Cause
+   */
+  executeOrThrow: (..._args: Args) => Promise<A>;
+  /**
+   * Interrupt the running and queued calls; AbortSignals passed by
+   * Effect.tryPromise to their promises are aborted
+   */
+  cancel: () => void;
   data: A | null;
   error: E | null;
+  defect: unknown;
+  interrupted: boolean;
+  timedOut: boolean;
+  result: EffectResult<A, E>;
   loading: boolean;
   reset: () => void;
-} {
-  const [state, setState] = useState<{
-    data: A | null;
-    error: E | null;
-    loading: boolean;
-  }>({
-    data: null,
-    error: null,
-    loading: false,
-  });
+}
+
+interface CallbackState<A, E> {
+  result: EffectResult<A, E>;
+  loading: boolean;
+}
+
+const initialState: CallbackState<never, never> = {
+  result: { _tag: 'Initial' },
+  loading: false,
+};
+
+/**
+ * Run an Effect on demand, e.g. from an event handler
+ *
+ * Each call of `execute` runs the effect in its own fiber on the runtime of
+ * the nearest provider; running fibers are interrupted by `cancel` and when
+ * the component unmounts, aborting the AbortSignal that Effect.tryPromise
+ * passes to its promise. `concurrency` decides what happens to calls made while previous
+ * ones run (`merge` by default, without limit). With `debounce` or
+ * `throttle`, calls start late and each call interrupts the previous ones,
+ * so only the latest of a burst of calls runs. The state only shows the
+ * result of the latest call that completed, never the result of an older
+ * call finishing after a newer one. With `timeout`, a call running longer
+ * fails with a TimeoutException and sets `timedOut` instead of calling
+ * `onFailure`.
+ *
+ * @param createEffect - Function creating the Effect from the arguments of execute
+ * @param options - Callbacks, concurrency strategy, debounce, throttle and timeout
+ * @returns Object containing execute, the outcome of the latest call, and reset
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function useEffectCallback<A, E = never, Args extends any[] = [], R = never>(
+  createEffect: (..._args: Args) => Effect.Effect<A, E, R>,
+  options?: EffectCallbackOptions<A, E>
+): EffectCallback<A, E | Cause.TimeoutException, Args> {
+  const runtime = useRuntime<R>();
+  const [state, setState] = useState<CallbackState<A, E | Cause.TimeoutException>>(initialState);
+
+  const rateLimit = useRateLimit(options);
+
+  // Delayed calls are superseded by newer ones
+  const concurrency =
+    options?.debounce !== undefined || options?.throttle !== undefined
+      ? 'switch'
+      : (options?.concurrency ?? 'merge');
+  const permits =
+    concurrency === 'queue'
+      ? 1
+      : concurrency === 'merge'
+        ? (options?.maxConcurrent ?? Number.POSITIVE_INFINITY)
+        : Number.POSITIVE_INFINITY;
+
+  // Limits queued and merged calls; an unbounded merge needs no semaphore
+  const semaphore = useMemo(
+    () => (Number.isFinite(permits) ? Effect.unsafeMakeSemaphore(permits) : null),
+    [permits]
+  );
+
+  const fibersRef = useRef(new Set<Fiber.RuntimeFiber<A, E | Cause.TimeoutException>>());
+  const callIdRef = useRef(0);
+  const appliedIdRef = useRef(0);
+
+  // Interrupt the running calls, so that their finalizers run
+  const cancel = useCallback(() => {
+    const fibers = fibersRef.current;
+    fibers.forEach((fiber) => Effect.runFork(Fiber.interrupt(fiber)));
+    fibers.clear();
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
 
   const execute = useCallback(
-    async (..._args: Args) => {
+    async (..._args: Args): Promise<Exit.Exit<A, E | Cause.TimeoutException>> => {
+      const fibers = fibersRef.current;
+
+      if (concurrency === 'exhaust' && fibers.size > 0) {
+        return Exit.interrupt(FiberId.none);
+      }
+
+      if (concurrency === 'switch') {
+        cancel();
+      }
+
+      const callId = ++callIdRef.current;
+
       // Start loading, clear previous state
-      setState({ data: null, error: null, loading: true });
+      setState({ result: { _tag: 'Loading' }, loading: true });
+
+      // Create and run the effect; the timeout only counts once it has started
+      const effect = rateLimit(
+        withTimeout(reportMissingServices(createEffect(..._args)), options?.timeout)
+      );
+      const fiber = Runtime.runFork(runtime)(
+        semaphore ? semaphore.withPermits(1)(effect) : effect
+      );
+      fibers.add(fiber);
+
+      const exit = await Effect.runPromise(Fiber.await(fiber));
+      fibers.delete(fiber);
 
-      // Create and run the effect
-      const effect = createEffect(..._args);
-      const exit = await Effect.runPromiseExit(effect);
+      const loading = fibers.size > 0;
+      const result = exitToResult(exit);
 
-      if (Exit.isSuccess(exit)) {
-        // Success
-        setState({ data: exit.value, error: null, loading: false });
-        options?.onSuccess?.(exit.value);
+      // Calls older than the result already shown, and interrupted calls
+      // superseded by a newer one, only update the loading state
+      const stale =
+        result._tag === 'Interrupted'
+          ? callId < callIdRef.current
+          : callId < appliedIdRef.current;
+      if (stale) {
+        setState((prev) => ({ ...prev, loading }));
       } else {
-        // Failure
-        const failure = Cause.failureOption(exit.cause);
-        const error = failure._tag === 'Some' ? failure.value : (null as E | null);
+        appliedIdRef.current = callId;
+        setState({ result, loading });
+      }
+
+      if (result._tag === 'Success') {
+        options?.onSuccess?.(result.value);
+      } else if (result._tag === 'Failure' && !isTimedOut(result)) {
+        options?.onFailure?.(result.error as E);
+      }
 
-        setState({ data: null, error, loading: false });
+      return exit;
+    },
+    [
+      createEffect,
+      runtime,
+      concurrency,
+      semaphore,
+      cancel,
+      rateLimit,
+      options?.timeout,
+      options?.onSuccess,
+      options?.onFailure,
+    ]
+  );
 
-        if (error) {
-          options?.onFailure?.(error);
-        }
+  const executeOrThrow = useCallback(
+    async (..._args: Args): Promise<A> => {
+      const exit = await execute(..._args);
+
+      if (Exit.isFailure(exit)) {
+        throw Runtime.makeFiberFailure(exit.cause);
       }
+
+      return exit.value;
     },
-    [createEffect, options?.onSuccess, options?.onFailure]
+    [execute]
   );
 
   const reset = useCallback(() => {
-    setState({ data: null, error: null, loading: false });
+    setState(initialState);
   }, []);
 
   return {
     execute,
-    data: state.data,
-    error: state.error,
+    executeOrThrow,
+    cancel,
+    data: state.result._tag === 'Success' ? state.result.value : null,
+    error: resultError(state.result),
+    defect:
+      state.result._tag === 'Defect'
+        ? Option.getOrNull(Cause.dieOption(state.result.cause))
+        : null,
+    interrupted: state.result._tag === 'Interrupted',
+    timedOut: isTimedOut(state.result),
+    result: state.result,
     loading: state.loading,
     reset,
   };
@@ -3,7 +3,8 @@ import * as Context from 'effect/Context';
 import { EffectRuntimeContext } from './useService';
 
 /**
- * Hook to get the current Effect Context from the nearest EffectProvider
+ * Hook to get the current Effect Context from the nearest EffectProvider,
+ * RuntimeProvider or ProvideService
  *
  * @returns The Effect Context if available, null otherwise
  *
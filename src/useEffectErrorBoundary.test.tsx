@@ -0,0 +1,259 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import {
+  render,
+  cleanup,
+  screen,
+  waitFor,
+  fireEvent,
+} from '@testing-library/react';
+import {
+  EffectErrorBoundary,
+  useEffectErrorBoundary,
+} from './useEffectErrorBoundary';
+import { useEffectSuspense, clearEffectSuspense } from './useEffectSuspense';
+import * as Effect from 'effect/Effect';
+import * as Cause from 'effect/Cause';
+import * as Chunk from 'effect/Chunk';
+import * as Data from 'effect/Data';
+import React, { Suspense } from 'react';
+
+class NotFound extends Data.TaggedError('NotFound')<{ readonly id: string }> {}
+
+class Forbidden extends Data.TaggedError('Forbidden')<{}> {}
+
+type LoadError = NotFound | Forbidden;
+
+function Loader({
+  cacheKey,
+  effect,
+}: {
+  cacheKey: string;
+  effect: Effect.Effect<string, LoadError>;
+}) {
+  const value = useEffectSuspense(cacheKey, effect);
+  return <div>value:{value}</div>;
+}
+
+describe('EffectErrorBoundary', () => {
+  let consoleError: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    cleanup();
+    clearEffectSuspense();
+    consoleError.mockRestore();
+  });
+
+  it('should render children when nothing fails', async () => {
+    render(
+      <EffectErrorBoundary fallback={() => <div>failed</div>}>
+        <Suspense fallback={<div>loading</div>}>
+          <Loader cacheKey="ok" effect={Effect.succeed('loaded')} />
+        </Suspense>
+      </EffectErrorBoundary>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('value:loaded')).toBeInTheDocument();
+    });
+  });
+
+  it('should render the catchTags handler matching the failure', async () => {
+    render(
+      <EffectErrorBoundary<LoadError>
+        catchTags={{
+          NotFound: (error) => <div>missing:{error.id}</div>,
+          Forbidden: () => <div>forbidden</div>,
+        }}
+        fallback={() => <div>failed</div>}
+      >
+        <Suspense fallback={<div>loading</div>}>
+          <Loader
+            cacheKey="not-found"
+            effect={Effect.fail(new NotFound({ id: 'user-1' }))}
+          />
+        </Suspense>
+      </EffectErrorBoundary>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('missing:user-1')).toBeInTheDocument();
+    });
+  });
+
+  it('should pass unmatched failures to fallback with the full cause', async () => {
+    let received: Cause.Cause<LoadError> | null = null;
+
+    render(
+      <EffectErrorBoundary<LoadError>
+        catchTags={{ NotFound: () => <div>missing</div> }}
+        fallback={(cause) => {
+          received = cause;
+          return <div>failed</div>;
+        }}
+      >
+        <Suspense fallback={<div>loading</div>}>
+          <Loader cacheKey="forbidden" effect={Effect.fail(new Forbidden())} />
+        </Suspense>
+      </EffectErrorBoundary>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('failed')).toBeInTheDocument();
+    });
+    expect(Cause.isFailType(received!)).toBe(true);
+  });
+
+  it('should render defects and interruptions with fallback', async () => {
+    const causes: Array<Cause.Cause<LoadError>> = [];
+    const fallback = (cause: Cause.Cause<LoadError>) => {
+      causes.push(cause);
+      return <div>failed</div>;
+    };
+
+    render(
+      <>
+        <EffectErrorBoundary fallback={fallback}>
+          <Suspense fallback={<div>loading</div>}>
+            <Loader cacheKey="die" effect={Effect.die(new Error('boom'))} />
+          </Suspense>
+        </EffectErrorBoundary>
+        <EffectErrorBoundary fallback={fallback}>
+          <Suspense fallback={<div>loading</div>}>
+            <Loader cacheKey="interrupt" effect={Effect.interrupt} />
+          </Suspense>
+        </EffectErrorBoundary>
+      </>
+    );
+
+    await waitFor(() => {
+      expect(screen.getAllByText('failed')).toHaveLength(2);
+    });
+    expect(causes.some(Cause.isDie)).toBe(true);
+    expect(causes.some(Cause.isInterruptedOnly)).toBe(true);
+  });
+
+  it('should keep every failure of a parallel cause', async () => {
+    let received: Cause.Cause<LoadError> | null = null;
+
+    render(
+      <EffectErrorBoundary<LoadError>
+        fallback={(cause) => {
+          received = cause;
+          return <div>failed</div>;
+        }}
+      >
+        <Suspense fallback={<div>loading</div>}>
+          <Loader
+            cacheKey="parallel"
+            effect={Effect.failCause(
+              Cause.parallel(
+                Cause.fail(new NotFound({ id: 'a' })),
+                Cause.fail(new Forbidden())
+              )
+            )}
+          />
+        </Suspense>
+      </EffectErrorBoundary>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('failed')).toBeInTheDocument();
+    });
+    expect(Cause.isParallelType(received!)).toBe(true);
+    expect(Chunk.size(Cause.failures(received!))).toBe(2);
+  });
+
+  it('should treat errors thrown while rendering as defects', async () => {
+    const onError = vi.fn();
+
+    function Broken(): React.ReactNode {
+      throw new Error('render failed');
+    }
+
+    render(
+      <EffectErrorBoundary
+        onError={onError}
+        fallback={(cause) => (
+          <div>defect:{String(Cause.isDieType(cause))}</div>
+        )}
+      >
+        <Broken />
+      </EffectErrorBoundary>
+    );
+
+    expect(screen.getByText('defect:true')).toBeInTheDocument();
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(Cause.isDieType(onError.mock.calls[0][0])).toBe(true);
+  });
+
+  it('should re-run the failed effect on reset', async () => {
+    let attempts = 0;
+    const effect = Effect.suspend(() =>
+      ++attempts === 1
+        ? Effect.fail(new NotFound({ id: 'retry' }))
+        : Effect.succeed('recovered')
+    );
+
+    render(
+      <EffectErrorBoundary<LoadError>
+        catchTags={{
+          NotFound: (_error, reset) => <button onClick={reset}>retry</button>,
+        }}
+      >
+        <Suspense fallback={<div>loading</div>}>
+          <Loader cacheKey="reset" effect={effect} />
+        </Suspense>
+      </EffectErrorBoundary>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('retry')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByText('retry'));
+
+    await waitFor(() => {
+      expect(screen.getByText('value:recovered')).toBeInTheDocument();
+    });
+    expect(attempts).toBe(2);
+  });
+});
+
+describe('useEffectErrorBoundary', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('should send a cause to the nearest boundary', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    function Form() {
+      const showBoundary = useEffectErrorBoundary<LoadError>();
+      return (
+        <button onClick={() => showBoundary(Cause.fail(new Forbidden()))}>
+          submit
+        </button>
+      );
+    }
+
+    render(
+      <EffectErrorBoundary<LoadError>
+        catchTags={{ Forbidden: () => <div>forbidden</div> }}
+      >
+        <Form />
+      </EffectErrorBoundary>
+    );
+
+    fireEvent.click(screen.getByText('submit'));
+
+    await waitFor(() => {
+      expect(screen.getByText('forbidden')).toBeInTheDocument();
+    });
+
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,123 @@
+import { Component, ReactNode, useState } from 'react';
+import * as Cause from 'effect/Cause';
+import * as Option from 'effect/Option';
+import * as Runtime from 'effect/Runtime';
+import { clearSuspenseFailure } from './useEffectSuspense';
+
+/**
+ * Handlers rendering a fallback for failures, keyed by the `_tag` of the error
+ */
+export type EffectErrorBoundaryTags<E> = unknown extends E
+  ? Record<string, (_error: any, _reset: () => void) => ReactNode>
+  : {
+      readonly [K in Extract<E, { readonly _tag: string }>['_tag']]?: (
+        _error: Extract<E, { readonly _tag: K }>,
+        _reset: () => void
+      ) => ReactNode;
+    };
+
+/**
+ * Props for EffectErrorBoundary
+ */
+export interface EffectErrorBoundaryProps<E = unknown> {
+  children: ReactNode;
+  catchTags?: EffectErrorBoundaryTags<E>;
+  fallback?: (_cause: Cause.Cause<E>, _reset: () => void) => ReactNode;
+  onError?: (_cause: Cause.Cause<E>) => void;
+}
+
+interface EffectErrorBoundaryState {
+  error: { readonly thrown: unknown } | null;
+}
+
+/**
+ * Recover the Cause behind an error thrown during rendering; errors that do
+ * not come from an effect are treated as defects
+ */
+function causeOf<E>(thrown: unknown): Cause.Cause<E> {
+  return Runtime.isFiberFailure(thrown)
+    ? (thrown[Runtime.FiberFailureCauseId] as Cause.Cause<E>)
+    : Cause.die(thrown);
+}
+
+function hasTag(error: unknown): error is { readonly _tag: string } {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    typeof (error as { _tag?: unknown })._tag === 'string'
+  );
+}
+
+/**
+ * Error boundary for effects thrown by Suspense-style hooks or rendering
+ *
+ * The first failure of the Cause is rendered by the `catchTags` handler
+ * matching its `_tag`; anything else (untagged failures, defects,
+ * interruptions) is rendered by `fallback` with the full Cause. Both receive
+ * a `reset` function that clears the failed effect from the Suspense cache and
+ * renders the children again, so the effect is re-run.
+ *
+ * @param catchTags - Fallbacks keyed by the `_tag` of the failure
+ * @param fallback - Fallback rendered with the full Cause
+ * @param onError - Called with the Cause whenever an error is caught
+ */
+export class EffectErrorBoundary<E = unknown> extends Component<
+  EffectErrorBoundaryProps<E>,
+  EffectErrorBoundaryState
+> {
+  state: EffectErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(thrown: unknown): EffectErrorBoundaryState {
+    return { error: { thrown } };
+  }
+
+  componentDidCatch(thrown: unknown): void {
+    this.props.onError?.(causeOf<E>(thrown));
+  }
+
+  reset = (): void => {
+    if (this.state.error) {
+      clearSuspenseFailure(this.state.error.thrown);
+    }
+    this.setState({ error: null });
+  };
+
+  render(): ReactNode {
+    if (!this.state.error) {
+      return this.props.children;
+    }
+
+    const cause = causeOf<E>(this.state.error.thrown);
+    const failure = Option.getOrUndefined(Cause.failureOption(cause));
+
+    if (hasTag(failure)) {
+      const handlers = this.props.catchTags as
+        | Record<string, (_error: unknown, _reset: () => void) => ReactNode>
+        | undefined;
+      const handler = handlers?.[failure._tag];
+      if (handler) {
+        return handler(failure, this.reset);
+      }
+    }
+
+    return this.props.fallback ? this.props.fallback(cause, this.reset) : null;
+  }
+}
+
+/**
+ * Hook to send a Cause to the nearest EffectErrorBoundary from outside
+ * rendering, e.g. from an event handler or the result of useEffectCallback
+ *
+ * @returns Function rendering the boundary's fallback for the given Cause
+ */
+export function useEffectErrorBoundary<E = unknown>(): (
+  _cause: Cause.Cause<E>
+) => void {
+  const [cause, setCause] = useState<Cause.Cause<E> | null>(null);
+
+  if (cause !== null) {
+    throw Runtime.makeFiberFailure(cause);
+  }
+
+  return setCause;
+}
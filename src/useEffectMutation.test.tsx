@@ -0,0 +1,288 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { renderHook, waitFor, cleanup, act } from '@testing-library/react';
+import { useEffectMutation } from './useEffectMutation';
+import { useEffectQuery } from './useEffectQuery';
+import { makeQueryClient, QueryClientProvider, type QueryClient } from './useQueryClient';
+import * as Effect from 'effect/Effect';
+import React from 'react';
+
+function makeWrapper(client: QueryClient) {
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={client}>{children}</QueryClientProvider>
+  );
+}
+
+describe('useEffectMutation', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('should apply optimistic updates before the effect completes', async () => {
+    const client = makeQueryClient();
+    client.setQueryData<string[]>(['todos'], () => ['a']);
+
+    const { result } = renderHook(
+      () =>
+        useEffectMutation(
+          (todo: string) => Effect.delay(Effect.succeed(todo), '50 millis'),
+          {
+            onMutate: (todo) => [
+              { key: ['todos'], update: (todos: string[] | null) => [...(todos ?? []), todo] },
+            ],
+          }
+        ),
+      { wrapper: makeWrapper(client) }
+    );
+
+    let promise!: Promise<unknown>;
+    act(() => {
+      promise = result.current.execute('b');
+    });
+
+    expect(client.getState(['todos']).data).toEqual(['a', 'b']);
+
+    await act(() => promise);
+
+    expect(result.current.data).toBe('b');
+    expect(client.getState(['todos']).data).toEqual(['a', 'b']);
+  });
+
+  it('should roll back optimistic updates when the effect fails', async () => {
+    const client = makeQueryClient();
+    client.setQueryData<string[]>(['todos'], () => ['a']);
+    const onFailure = vi.fn();
+
+    const { result } = renderHook(
+      () =>
+        useEffectMutation(
+          (_todo: string) => Effect.delay(Effect.fail('rejected'), '20 millis'),
+          {
+            onMutate: (todo) => [
+              { key: ['todos'], update: (todos: string[] | null) => [...(todos ?? []), todo] },
+            ],
+            onFailure,
+          }
+        ),
+      { wrapper: makeWrapper(client) }
+    );
+
+    await act(() => result.current.execute('b'));
+
+    expect(client.getState(['todos']).data).toEqual(['a']);
+    expect(result.current.error).toBe('rejected');
+    expect(onFailure).toHaveBeenCalledWith('rejected');
+  });
+
+  it('should roll back optimistic updates when the effect is cancelled', async () => {
+    const client = makeQueryClient();
+    client.setQueryData<string[]>(['todos'], () => ['a']);
+
+    const { result } = renderHook(
+      () =>
+        useEffectMutation((todo: string) => Effect.as(Effect.never, todo), {
+          onMutate: (todo) => [
+            { key: ['todos'], update: (todos: string[] | null) => [...(todos ?? []), todo] },
+          ],
+        }),
+      { wrapper: makeWrapper(client) }
+    );
+
+    let promise!: Promise<unknown>;
+    act(() => {
+      promise = result.current.execute('b');
+    });
+
+    expect(client.getState(['todos']).data).toEqual(['a', 'b']);
+
+    act(() => result.current.cancel());
+    await act(() => promise);
+
+    expect(result.current.interrupted).toBe(true);
+    expect(client.getState(['todos']).data).toEqual(['a']);
+  });
+
+  it('should roll back optimistic updates when the effect times out', async () => {
+    const client = makeQueryClient();
+    client.setQueryData<string[]>(['todos'], () => ['a']);
+
+    const { result } = renderHook(
+      () =>
+        useEffectMutation((todo: string) => Effect.as(Effect.never, todo), {
+          onMutate: (todo) => [
+            { key: ['todos'], update: (todos: string[] | null) => [...(todos ?? []), todo] },
+          ],
+          timeout: '20 millis',
+        }),
+      { wrapper: makeWrapper(client) }
+    );
+
+    await act(() => result.current.execute('b'));
+
+    expect(result.current.timedOut).toBe(true);
+    expect(client.getState(['todos']).data).toEqual(['a']);
+  });
+
+  it('should restore a loading query and fetch it again when the effect fails', async () => {
+    const client = makeQueryClient();
+    const load = vi.fn(() => ['a']);
+
+    const { result } = renderHook(
+      () => ({
+        query: useEffectQuery(Effect.delay(Effect.sync(load), '50 millis'), [], {
+          key: ['todos'],
+        }),
+        mutation: useEffectMutation(
+          (_todo: string) => Effect.delay(Effect.fail('rejected'), '10 millis'),
+          {
+            onMutate: (todo) => [
+              { key: ['todos'], update: (todos: string[] | null) => [...(todos ?? []), todo] },
+            ],
+          }
+        ),
+      }),
+      { wrapper: makeWrapper(client) }
+    );
+
+    expect(result.current.query.isFetching).toBe(true);
+
+    let promise!: Promise<unknown>;
+    act(() => {
+      promise = result.current.mutation.execute('b');
+    });
+
+    expect(result.current.query.data).toEqual(['b']);
+
+    await act(() => promise);
+
+    expect(result.current.query.loading).toBe(true);
+    expect(result.current.query.data).toBeNull();
+
+    await waitFor(() => {
+      expect(result.current.query.data).toEqual(['a']);
+    });
+    expect(result.current.query.result._tag).toBe('Success');
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fetch a query cancelled by onMutate again when the effect succeeds', async () => {
+    const client = makeQueryClient();
+    const load = vi.fn(() => ['a', 'b']);
+
+    const { result } = renderHook(
+      () => ({
+        query: useEffectQuery(Effect.delay(Effect.sync(load), '50 millis'), [], {
+          key: ['todos'],
+        }),
+        mutation: useEffectMutation((todo: string) => Effect.succeed(todo), {
+          onMutate: (todo) => [
+            { key: ['todos'], update: (todos: string[] | null) => [...(todos ?? []), todo] },
+          ],
+        }),
+      }),
+      { wrapper: makeWrapper(client) }
+    );
+
+    await act(() => result.current.mutation.execute('b'));
+
+    expect(result.current.query.data).toEqual(['b']);
+    expect(result.current.query.isFetching).toBe(true);
+
+    await waitFor(() => {
+      expect(result.current.query.data).toEqual(['a', 'b']);
+    });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should write the result into query data', async () => {
+    const client = makeQueryClient();
+    const onSuccess = vi.fn();
+
+    const { result } = renderHook(
+      () =>
+        useEffectMutation(
+          (name: string) => Effect.succeed({ id: 1, name }),
+          {
+            updates: (user) => [{ key: ['user', user.id], update: () => user }],
+            onSuccess,
+          }
+        ),
+      { wrapper: makeWrapper(client) }
+    );
+
+    await act(() => result.current.execute('Alice'));
+
+    expect(client.getState(['user', 1]).data).toEqual({ id: 1, name: 'Alice' });
+    expect(onSuccess).toHaveBeenCalledWith({ id: 1, name: 'Alice' });
+  });
+
+  it('should refetch invalidated queries, matching keys by prefix', async () => {
+    const client = makeQueryClient();
+    let version = 0;
+    const load = vi.fn(() => `todos-v${version}`);
+
+    const { result } = renderHook(
+      () => ({
+        query: useEffectQuery(Effect.sync(load), [], {
+          key: ['todos', { page: 1 }],
+          staleTime: '1 minute',
+        }),
+        mutation: useEffectMutation(
+          () =>
+            Effect.sync(() => {
+              version++;
+            }),
+          { invalidates: [['todos']] }
+        ),
+      }),
+      { wrapper: makeWrapper(client) }
+    );
+
+    await waitFor(() => {
+      expect(result.current.query.data).toBe('todos-v0');
+    });
+
+    await act(() => result.current.mutation.execute());
+
+    await waitFor(() => {
+      expect(result.current.query.data).toBe('todos-v1');
+    });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not invalidate queries when the effect fails', async () => {
+    const client = makeQueryClient();
+    const load = vi.fn(() => 'todos');
+
+    const { result } = renderHook(
+      () => ({
+        query: useEffectQuery(Effect.sync(load), [], {
+          key: ['todos'],
+          staleTime: '1 minute',
+        }),
+        mutation: useEffectMutation(() => Effect.fail('rejected'), {
+          invalidates: [['todos']],
+        }),
+      }),
+      { wrapper: makeWrapper(client) }
+    );
+
+    await waitFor(() => {
+      expect(result.current.query.data).toBe('todos');
+    });
+
+    await act(() => result.current.mutation.execute());
+
+    expect(result.current.query.isFetching).toBe(false);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw without a QueryClientProvider', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => renderHook(() => useEffectMutation(() => Effect.succeed(1)))).toThrow(
+      'useQueryClient must be used within a QueryClientProvider'
+    );
+
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,105 @@
+import { useCallback } from 'react';
+import * as Cause from 'effect/Cause';
+import * as Effect from 'effect/Effect';
+import * as Exit from 'effect/Exit';
+import {
+  useEffectCallback,
+  type EffectCallback,
+  type EffectCallbackOptions,
+} from './useEffectCallback';
+import { useQueryClient, type QueryKey, type QueryUpdate } from './useQueryClient';
+
+/**
+ * Options for useEffectMutation
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export interface EffectMutationOptions<A, E, Args extends any[]>
+  extends EffectCallbackOptions<A, E> {
+  /**
+   * Optimistic updates applied before the effect runs; they are rolled back
+   * when the effect fails or is interrupted
+   */
+  onMutate?: (..._args: Args) => ReadonlyArray<QueryUpdate>;
+  /**
+   * Updates applied to query data with the result of the effect
+   */
+  updates?: (_value: A, ..._args: Args) => ReadonlyArray<QueryUpdate>;
+  /**
+   * Query keys invalidated after the effect succeeds
+   */
+  invalidates?:
+    | ReadonlyArray<QueryKey>
+    | ((_value: A, ..._args: Args) => ReadonlyArray<QueryKey>);
+}
+
+/**
+ * Run an Effect on demand and apply its result to keyed queries
+ *
+ * Works like useEffectCallback, and updates the QueryClient of the nearest
+ * QueryClientProvider: `onMutate` patches query data optimistically before
+ * the effect runs, restoring the previous state of the queries if it fails or
+ * is interrupted (by `cancel`, a newer call, unmount or `timeout`); on
+ * success, `updates` writes the result into query data and the `invalidates`
+ * keys are refetched. Queries whose fetch `onMutate` cancelled are
+ * invalidated once the effect settles, either way.
+ *
+ * @param createEffect - Function creating the Effect from the arguments of execute
+ * @param options - Optimistic updates, query updates and invalidation, and useEffectCallback options
+ * @returns The same object as useEffectCallback
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function useEffectMutation<A, E = never, Args extends any[] = [], R = never>(
+  createEffect: (..._args: Args) => Effect.Effect<A, E, R>,
+  options?: EffectMutationOptions<A, E, Args>
+): EffectCallback<A, E | Cause.TimeoutException, Args> {
+  const client = useQueryClient();
+
+  const mutate = useCallback(
+    (...args: Args) =>
+      Effect.suspend(() => {
+        const optimistic = options?.onMutate?.(...args) ?? [];
+
+        // Snapshot the queries the optimistic updates replace
+        const snapshots = optimistic.map(({ key }) => client.snapshotQuery(key));
+
+        // Fetches cancelled below never finish, so they are run again later
+        const cancelled = optimistic
+          .filter(({ key }) => client.getState(key).isFetching)
+          .map(({ key }) => key);
+
+        optimistic.forEach(({ key, update }) => {
+          // A running fetch would overwrite the optimistic data
+          client.cancelQuery(key);
+          client.setQueryData(key, update);
+        });
+
+        return createEffect(...args).pipe(
+          // Interruptions are failures too, so they roll back as well
+          Effect.onExit((exit) =>
+            Exit.isFailure(exit)
+              ? Effect.sync(() => snapshots.forEach((snapshot) => client.restoreQuery(snapshot)))
+              : Effect.void
+          ),
+          Effect.tap((value) =>
+            Effect.sync(() => {
+              options?.updates?.(value, ...args).forEach(({ key, update }) => {
+                client.setQueryData(key, update);
+              });
+
+              const invalidates =
+                typeof options?.invalidates === 'function'
+                  ? options.invalidates(value, ...args)
+                  : (options?.invalidates ?? []);
+              invalidates.forEach((key) => client.invalidateQueries(key));
+            })
+          ),
+          Effect.ensuring(
+            Effect.sync(() => cancelled.forEach((key) => client.invalidateQueries(key)))
+          )
+        );
+      }),
+    [client, createEffect, options]
+  );
+
+  return useEffectCallback(mutate, options);
+}
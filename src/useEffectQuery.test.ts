@@ -1,8 +1,24 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { renderHook } from '@testing-library/react';
 import { waitFor } from '@testing-library/dom';
 import { useEffectQuery } from './useEffectQuery';
 import * as Effect from 'effect/Effect';
+import * as Context from 'effect/Context';
+import * as Layer from 'effect/Layer';
+import * as Cause from 'effect/Cause';
+import * as Data from 'effect/Data';
+import * as Schedule from 'effect/Schedule';
+import React from 'react';
+import { EffectProvider } from './useService';
+import { QueryClientProvider, makeQueryClient } from './useQueryClient';
+
+class RateLimited extends Data.TaggedError('RateLimited')<{}> {}
+class Unauthorized extends Data.TaggedError('Unauthorized')<{}> {}
+
+class UserRepo extends Context.Tag('UserRepo')<
+  UserRepo,
+  { readonly name: string }
+>() {}
 
 describe('useEffectQuery', () => {
   it('should start with loading state', () => {
@@ -86,4 +102,384 @@ describe('useEffectQuery', () => {
     // If this doesn't throw, the cleanup worked correctly
     expect(true).toBe(true);
   });
+
+  it('should run effects that require services from the nearest provider', async () => {
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(EffectProvider, {
+        layer: Layer.succeed(UserRepo, { name: 'Alice' }),
+        children,
+      });
+
+    const { result } = renderHook(
+      () => useEffectQuery(Effect.map(UserRepo, (repo) => repo.name)),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe('Alice');
+    });
+  });
+
+  it('should report isFetching while the effect runs', async () => {
+    const { result } = renderHook(() =>
+      useEffectQuery(Effect.delay(Effect.succeed(1), '20 millis'))
+    );
+
+    await waitFor(() => {
+      expect(result.current.isFetching).toBe(true);
+    });
+
+    await waitFor(() => {
+      expect(result.current.isFetching).toBe(false);
+    });
+    expect(result.current.data).toBe(1);
+  });
+
+  it('should keep previous data while new dependencies load', async () => {
+    const { result, rerender } = renderHook(
+      ({ id }) =>
+        useEffectQuery(Effect.delay(Effect.succeed(`user-${id}`), '20 millis'), [id], {
+          keepPreviousData: true,
+        }),
+      { initialProps: { id: 1 } }
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe('user-1');
+    });
+
+    rerender({ id: 2 });
+
+    await waitFor(() => {
+      expect(result.current.isFetching).toBe(true);
+    });
+    expect(result.current.data).toBe('user-1');
+    expect(result.current.loading).toBe(false);
+
+    await waitFor(() => {
+      expect(result.current.data).toBe('user-2');
+      expect(result.current.isFetching).toBe(false);
+    });
+  });
+
+  it('should keep cached data visible while a remounted query revalidates', async () => {
+    const client = makeQueryClient();
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(QueryClientProvider, { client, children });
+    let runs = 0;
+    const effect = Effect.suspend(() =>
+      Effect.delay(Effect.succeed(++runs), '20 millis')
+    );
+
+    const first = renderHook(() => useEffectQuery(effect, [], { key: 'runs' }), {
+      wrapper,
+    });
+
+    await waitFor(() => {
+      expect(first.result.current.data).toBe(1);
+    });
+    first.unmount();
+
+    const second = renderHook(() => useEffectQuery(effect, [], { key: 'runs' }), {
+      wrapper,
+    });
+
+    expect(second.result.current.data).toBe(1);
+    expect(second.result.current.loading).toBe(false);
+    expect(second.result.current.isFetching).toBe(true);
+
+    await waitFor(() => {
+      expect(second.result.current.data).toBe(2);
+      expect(second.result.current.isFetching).toBe(false);
+    });
+  });
+
+  it('should not refetch a keyed query within staleTime', async () => {
+    const client = makeQueryClient();
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(QueryClientProvider, { client, children });
+    let runs = 0;
+    const effect = Effect.sync(() => ++runs);
+
+    const first = renderHook(
+      () => useEffectQuery(effect, [], { key: 'fresh', staleTime: '1 minute' }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(first.result.current.data).toBe(1);
+    });
+    first.unmount();
+
+    const second = renderHook(
+      () => useEffectQuery(effect, [], { key: 'fresh', staleTime: '1 minute' }),
+      { wrapper }
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(second.result.current.data).toBe(1);
+    expect(runs).toBe(1);
+  });
+
+  it('should refetch in the background on window focus', async () => {
+    let runs = 0;
+    const effect = Effect.suspend(() =>
+      Effect.delay(Effect.succeed(++runs), '200 millis')
+    );
+
+    const { result } = renderHook(() =>
+      useEffectQuery(effect, [], { refetchOnWindowFocus: true })
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe(1);
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    window.dispatchEvent(new Event('focus'));
+
+    await waitFor(() => {
+      expect(result.current.isFetching).toBe(true);
+    });
+    expect(result.current.data).toBe(1);
+
+    await waitFor(() => {
+      expect(result.current.data).toBe(2);
+    });
+  });
+
+  it('should not refetch on window focus while the data is fresh', async () => {
+    let runs = 0;
+    const effect = Effect.sync(() => ++runs);
+
+    const { result } = renderHook(() =>
+      useEffectQuery(effect, [], {
+        refetchOnWindowFocus: true,
+        staleTime: '1 minute',
+      })
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe(1);
+    });
+
+    window.dispatchEvent(new Event('focus'));
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(runs).toBe(1);
+  });
+
+  it('should refetch keyed queries on reconnect', async () => {
+    const client = makeQueryClient();
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(QueryClientProvider, { client, children });
+    let runs = 0;
+    const effect = Effect.sync(() => ++runs);
+
+    const { result } = renderHook(
+      () =>
+        useEffectQuery(effect, [], { key: 'online', refetchOnReconnect: true }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe(1);
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    window.dispatchEvent(new Event('online'));
+
+    await waitFor(() => {
+      expect(result.current.data).toBe(2);
+    });
+  });
+
+  it('should run finalizers of the running effect on unmount', async () => {
+    const released = vi.fn();
+    const interrupted = vi.fn();
+    const effect = Effect.scoped(
+      Effect.acquireRelease(Effect.succeed('connection'), () =>
+        Effect.sync(released)
+      ).pipe(
+        Effect.zipRight(Effect.never),
+        Effect.onInterrupt(() => Effect.sync(interrupted))
+      )
+    );
+
+    const { unmount } = renderHook(() => useEffectQuery(effect));
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    unmount();
+
+    await waitFor(() => {
+      expect(interrupted).toHaveBeenCalledTimes(1);
+      expect(released).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should interrupt the previous effect when dependencies change', async () => {
+    const interrupted = vi.fn();
+    const { result, rerender } = renderHook(
+      ({ id }) =>
+        useEffectQuery(
+          id === 1
+            ? Effect.never.pipe(Effect.onInterrupt(() => Effect.sync(interrupted)))
+            : Effect.succeed(id),
+          [id]
+        ),
+      { initialProps: { id: 1 } }
+    );
+
+    rerender({ id: 2 });
+
+    await waitFor(() => {
+      expect(interrupted).toHaveBeenCalledTimes(1);
+      expect(result.current.data).toBe(2);
+    });
+  });
+
+  it('should expose defects as a result instead of an empty success', async () => {
+    const boom = new Error('boom');
+    const { result } = renderHook(() => useEffectQuery(Effect.die(boom)));
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.result._tag).toBe('Defect');
+    if (result.current.result._tag === 'Defect') {
+      expect(Cause.squash(result.current.result.cause)).toBe(boom);
+    }
+  });
+
+  it('should settle keyed queries interrupting themselves', async () => {
+    const client = makeQueryClient();
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(QueryClientProvider, { client, children });
+
+    const { result } = renderHook(
+      () => useEffectQuery(Effect.interrupt, [], { key: 'interrupted' }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.result._tag).toBe('Interrupted');
+    });
+    expect(result.current.loading).toBe(false);
+    expect(result.current.isFetching).toBe(false);
+  });
+
+  it('should debounce runs while the dependencies change', async () => {
+    const search = vi.fn((query: string) => `results for ${query}`);
+
+    const { result, rerender } = renderHook(
+      ({ query }) =>
+        useEffectQuery(Effect.sync(() => search(query)), [query], {
+          debounce: '30 millis',
+        }),
+      { initialProps: { query: 'a' } }
+    );
+
+    rerender({ query: 'ab' });
+    rerender({ query: 'abc' });
+
+    await waitFor(() => {
+      expect(result.current.data).toBe('results for abc');
+    });
+    expect(search).toHaveBeenCalledTimes(1);
+  });
+
+  it('should debounce keyed queries', async () => {
+    const client = makeQueryClient();
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(QueryClientProvider, { client, children });
+    const search = vi.fn((query: string) => `results for ${query}`);
+
+    const { result, rerender } = renderHook(
+      ({ query }) =>
+        useEffectQuery(Effect.sync(() => search(query)), [query], {
+          key: ['search', query],
+          debounce: '30 millis',
+        }),
+      { initialProps: { query: 'a' }, wrapper }
+    );
+
+    rerender({ query: 'ab' });
+
+    await waitFor(() => {
+      expect(result.current.data).toBe('results for ab');
+    });
+    expect(search).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry failures with a schedule', async () => {
+    let attempts = 0;
+    const effect = Effect.suspend(() =>
+      ++attempts < 3 ? Effect.fail('busy') : Effect.succeed('done')
+    );
+
+    const { result } = renderHook(() =>
+      useEffectQuery(effect, [], { retry: Schedule.recurs(2) })
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe('done');
+    });
+    expect(attempts).toBe(3);
+  });
+
+  it('should retry failures according to the policy of their tag', async () => {
+    let attempts = 0;
+    const effect = Effect.suspend((): Effect.Effect<string, RateLimited | Unauthorized> =>
+      ++attempts < 3 ? Effect.fail(new RateLimited()) : Effect.fail(new Unauthorized())
+    );
+
+    const { result } = renderHook(() =>
+      useEffectQuery(effect, [], {
+        retry: {
+          RateLimited: Schedule.spaced('10 millis'),
+          Unauthorized: false,
+        },
+      })
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    expect(result.current.error).toBeInstanceOf(Unauthorized);
+    expect(attempts).toBe(3);
+  });
+
+  it('should fail with a TimeoutException after the timeout', async () => {
+    const { result } = renderHook(() =>
+      useEffectQuery(Effect.never, [], { timeout: '20 millis' })
+    );
+
+    await waitFor(() => {
+      expect(result.current.timedOut).toBe(true);
+    });
+    expect(result.current.loading).toBe(false);
+    expect(result.current.error).toBeInstanceOf(Cause.TimeoutException);
+  });
+
+  it('should time out the whole run including retries', async () => {
+    let attempts = 0;
+    const { result } = renderHook(() =>
+      useEffectQuery(
+        Effect.suspend(() => {
+          attempts++;
+          return Effect.fail('unavailable');
+        }),
+        [],
+        { retry: Schedule.spaced('30 millis'), timeout: '100 millis' }
+      )
+    );
+
+    await waitFor(() => {
+      expect(result.current.timedOut).toBe(true);
+    });
+    expect(attempts).toBeGreaterThan(1);
+    expect(result.current.error).toBeInstanceOf(Cause.TimeoutException);
+  });
 });
@@ -1,57 +1,338 @@
-import { useEffect as useReactEffect, useState } from 'react';
+import {
+  useCallback,
+  useContext,
+  useEffect as useReactEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from 'react';
 import * as Effect from 'effect/Effect';
-import * as Exit from 'effect/Exit';
 import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
+import * as Duration from 'effect/Duration';
+import * as Fiber from 'effect/Fiber';
+import * as Runtime from 'effect/Runtime';
+import * as Schedule from 'effect/Schedule';
+import { useRuntime, reportMissingServices } from './useRuntime';
+import {
+  suspendOnEffect,
+  throwSuspenseFailure,
+  type SuspenseKey,
+} from './useEffectSuspense';
+import {
+  exitToResult,
+  isTimedOut,
+  resultError,
+  withTimeout,
+  type TimeoutOptions,
+} from './useEffectResult';
+import { useRateLimit, type RateLimitOptions } from './useEffectCallback';
+import { retryPolicy, type RetryPolicies } from './useRetry';
+import {
+  QueryClientContext,
+  hashQueryKey,
+  type QueryState,
+} from './useQueryClient';
+
+/**
+ * Options for useEffectQuery
+ *
+ * `retry` retries failures with a Schedule, or with the Schedule of their
+ * `_tag` given as retry policies.
+ */
+export interface EffectQueryOptions<E = unknown> extends RateLimitOptions, TimeoutOptions {
+  retry?: Schedule.Schedule<unknown, E, never> | RetryPolicies<E>;
+  suspense?: boolean;
+  key?: SuspenseKey;
+  staleTime?: Duration.DurationInput;
+  keepPreviousData?: boolean;
+  refetchOnWindowFocus?: boolean;
+  refetchOnReconnect?: boolean;
+}
 
 /**
  * Run an Effect and return its result in a React component
  *
+ * The effect runs on the runtime of the nearest provider, so services from
+ * EffectProvider, RuntimeProvider and ProvideService are available to it.
+ * A service that no provider supplies makes the effect die with a
+ * MissingServiceError.
+ *
+ * The effect runs in a fiber that is interrupted when the component unmounts
+ * or the deps change, so its finalizers run.
+ *
+ * With a `key`, the result is cached in the QueryClient of the nearest
+ * QueryClientProvider and shared by every component using the same key: the
+ * effect runs once for all of them, and is interrupted when the last one
+ * unmounts. The key must identify the effect and its inputs.
+ *
+ * Data stays visible while the query refetches in the background:
+ * `isFetching` is true whenever the effect runs, `loading` only until the
+ * first result. Results older than `staleTime` are refetched when a keyed
+ * query mounts, and on window focus or reconnect when enabled.
+ * `keepPreviousData` keeps showing the last result while a new key or new
+ * deps load.
+ *
+ * `retry` retries the failures of each run with a Schedule, or with retry
+ * policies keyed by the `_tag` of the error; only the final failure is shown.
+ * `timeout` fails a run, retries included, with a TimeoutException once it
+ * takes longer than that, and sets `timedOut`.
+ *
+ * `debounce` delays each run until the deps stop changing for that long, and
+ * `throttle` starts runs at most once per duration; a run superseded by new
+ * deps or a new key is interrupted, before its effect starts if it is still
+ * waiting. Background refetches on window focus or reconnect are not delayed.
+ *
+ * With `suspense: true` the component suspends while the effect runs and
+ * failures are thrown to the nearest error boundary; the result is cached by
+ * `key` as well. Below a QueryClientProvider the result lives in its
+ * QueryClient like any keyed query, so invalidation, `setQueryData` and
+ * mutations apply to it; a result that is already cached is shown without
+ * refetching on mount. Without a provider it lives in the Suspense cache of
+ * useEffectSuspense, kept per runtime until the runtime is dropped or
+ * `clearEffectSuspense` clears it.
+ *
  * @param effect - The Effect to run
  * @param deps - Dependencies array (like useEffect)
- * @returns Object containing loading state, data, and error
+ * @param options - Optional cache key, revalidation, retry, timeout, debounce, throttle and Suspense settings
+ * @returns Object containing loading and fetching state, data, error, and the result of the latest run
  */
-export function useEffectQuery<A, E>(
-  effect: Effect.Effect<A, E>,
-  deps: React.DependencyList = []
-): {
-  data: A | null;
-  error: E | null;
-  loading: boolean;
-} {
-  const [state, setState] = useState<{
-    data: A | null;
-    error: E | null;
-    loading: boolean;
-  }>({
+export function useEffectQuery<A, E, R = never>(
+  effect: Effect.Effect<A, E, R>,
+  deps: React.DependencyList = [],
+  options?: EffectQueryOptions<NoInfer<E>>
+): QueryState<A, E | Cause.TimeoutException> {
+  const runtime = useRuntime<R>();
+  const [state, setState] = useState<QueryState<A, E | Cause.TimeoutException>>({
     data: null,
     error: null,
+    result: { _tag: 'Loading' },
     loading: true,
+    isFetching: false,
+    timedOut: false,
   });
 
+  const suspense = options?.suspense ?? false;
+  const staleTime = Duration.toMillis(options?.staleTime ?? 0);
+  const refetchOnWindowFocus = options?.refetchOnWindowFocus ?? false;
+  const refetchOnReconnect = options?.refetchOnReconnect ?? false;
+  const client = useContext(QueryClientContext);
+  // Suspense queries use the QueryClient when there is one
+  const queryKey = !suspense || client ? options?.key : undefined;
+  const queryHash = queryKey !== undefined ? hashQueryKey(queryKey) : null;
+
+  if (queryHash !== null && !client) {
+    throw new Error('useEffectQuery requires a QueryClientProvider when a key is given');
+  }
+
+  // Subscribe to the shared entry of a keyed query
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      queryKey !== undefined && client
+        ? client.subscribe(queryKey, listener)
+        : () => {},
+    [client, queryHash]
+  );
+  const cached = useSyncExternalStore(subscribe, () =>
+    queryKey !== undefined && client
+      ? client.getState<A, E | Cause.TimeoutException>(queryKey)
+      : null
+  );
+
+  const rateLimit = useRateLimit(options);
+
+  // Failures are retried inside the run, so only the final one is reported;
+  // the timeout bounds the whole run
+  const retry = options?.retry;
+  const retried = withTimeout(
+    retry === undefined
+      ? effect
+      : Effect.retry(effect, Schedule.isSchedule(retry) ? retry : retryPolicy(retry)),
+    options?.timeout
+  );
+
+  // Latest effect and runtime, for refetches triggered by window events
+  const latest = useRef({ effect: retried, runtime, rateLimit });
+  latest.current = { effect: retried, runtime, rateLimit };
+
+  const runIdRef = useRef(0);
+  const fiberRef = useRef<Fiber.RuntimeFiber<A, E | Cause.TimeoutException> | null>(null);
+  const updatedAtRef = useRef<number | null>(null);
+
+  // Interrupt the running unkeyed query, so that its finalizers run
+  const interruptRun = useCallback(() => {
+    runIdRef.current++;
+    const fiber = fiberRef.current;
+    if (fiber) {
+      fiberRef.current = null;
+      Effect.runFork(Fiber.interrupt(fiber));
+    }
+  }, []);
+
+  // Run an unkeyed query; a background run keeps the previous result visible
+  const run = useCallback((background: boolean) => {
+    const runId = ++runIdRef.current;
+
+    setState((prev) =>
+      background
+        ? { ...prev, isFetching: true }
+        : {
+            data: null,
+            error: null,
+            result: { _tag: 'Loading' },
+            loading: true,
+            isFetching: true,
+            timedOut: false,
+          }
+    );
+
+    const effect = reportMissingServices(latest.current.effect);
+    const fiber = Runtime.runFork(latest.current.runtime)(
+      background ? effect : latest.current.rateLimit(effect)
+    );
+    fiberRef.current = fiber;
+
+    Effect.runPromise(Fiber.await(fiber)).then((exit) => {
+      // Ignore runs superseded by a newer run, a deps change or unmount
+      if (runIdRef.current !== runId) return;
+
+      fiberRef.current = null;
+      updatedAtRef.current = Date.now();
+
+      const result = exitToResult(exit);
+      setState((prev) => ({
+        data: Exit.isSuccess(exit) ? exit.value : prev.data,
+        error: resultError(result),
+        result,
+        loading: false,
+        isFetching: false,
+        timedOut: isTimedOut(result),
+      }));
+    });
+  }, []);
+
+  useReactEffect(() => {
+    // Suspense mode runs the effect during render instead
+    if (suspense) return;
+
+    if (queryKey !== undefined && client) {
+      client.ensureQuery(queryKey, rateLimit(retried), runtime, { staleTime });
+      return;
+    }
+
+    run(false);
+
+    return interruptRun;
+  }, [...deps, runtime, suspense, client, queryHash]);
+
+  // Revalidate stale results when the window regains focus or goes online
   useReactEffect(() => {
-    let cancelled = false;
-
-    setState({ data: null, error: null, loading: true });
-
-    Effect.runPromiseExit(effect).then((exit) => {
-      if (cancelled) return;
-
-      if (Exit.isSuccess(exit)) {
-        setState({ data: exit.value, error: null, loading: false });
-      } else {
-        const failure = Cause.failureOption(exit.cause);
-        setState({
-          data: null,
-          error: failure._tag === 'Some' ? failure.value : null,
-          loading: false
-        });
+    if (
+      (suspense && queryKey === undefined) ||
+      (!refetchOnWindowFocus && !refetchOnReconnect)
+    ) {
+      return;
+    }
+
+    const revalidate = () => {
+      if (queryKey !== undefined && client) {
+        client.ensureQuery(
+          queryKey,
+          latest.current.effect,
+          latest.current.runtime,
+          { staleTime }
+        );
+        return;
       }
-    });
+
+      const updatedAt = updatedAtRef.current;
+      if (
+        fiberRef.current === null &&
+        (updatedAt === null || Date.now() - updatedAt > staleTime)
+      ) {
+        run(true);
+      }
+    };
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        revalidate();
+      }
+    };
+
+    if (refetchOnWindowFocus) {
+      window.addEventListener('focus', revalidate);
+      document.addEventListener('visibilitychange', onVisibilityChange);
+    }
+    if (refetchOnReconnect) {
+      window.addEventListener('online', revalidate);
+    }
 
     return () => {
-      cancelled = true;
+      window.removeEventListener('focus', revalidate);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('online', revalidate);
+    };
+  }, [
+    suspense,
+    refetchOnWindowFocus,
+    refetchOnReconnect,
+    staleTime,
+    client,
+    queryHash,
+    run,
+  ]);
+
+  // Last settled result, shown by keepPreviousData while new inputs load
+  const current = cached ?? state;
+  const settledRef = useRef<QueryState<A, E | Cause.TimeoutException> | null>(null);
+  if (!current.loading) {
+    settledRef.current = current;
+  }
+
+  if (suspense) {
+    if (options?.key === undefined) {
+      throw new Error('useEffectQuery requires a key when suspense is enabled');
+    }
+
+    if (queryKey !== undefined && client && cached) {
+      if (cached.loading) {
+        throw client.suspendQuery(queryKey, retried, runtime);
+      }
+
+      const result = cached.result;
+      if (
+        result._tag === 'Failure' ||
+        result._tag === 'Defect' ||
+        result._tag === 'Interrupted'
+      ) {
+        // Resetting the error boundary loads the query again
+        throwSuspenseFailure(runtime, queryKey, result.cause, () => client.resetQueries(queryKey));
+      }
+      return cached;
+    }
+
+    const exit = suspendOnEffect(runtime, options.key, retried);
+    if (Exit.isFailure(exit)) {
+      throwSuspenseFailure(runtime, options.key, exit.cause);
+    }
+    return {
+      data: exit.value,
+      error: null,
+      result: { _tag: 'Success', value: exit.value },
+      loading: false,
+      isFetching: false,
+      timedOut: false,
+    };
+  }
+
+  if (options?.keepPreviousData && current.loading && settledRef.current) {
+    return {
+      ...settledRef.current,
+      loading: false,
+      isFetching: current.isFetching,
     };
-  }, deps);
+  }
 
-  return state;
+  return current;
 }
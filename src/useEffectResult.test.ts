@@ -1,7 +1,15 @@
-import { describe, it, expect, afterEach } from 'vitest';
+import { describe, it, expect, afterEach, vi } from 'vitest';
 import { renderHook, waitFor, cleanup } from '@testing-library/react';
-import { useEffectResult } from './useEffectResult';
+import { useEffectResult, exitToResult, isTimedOut, withTimeout } from './useEffectResult';
 import * as Effect from 'effect/Effect';
+import * as Context from 'effect/Context';
+import * as Layer from 'effect/Layer';
+import * as Cause from 'effect/Cause';
+import React from 'react';
+import { EffectProvider } from './useService';
+import { MissingServiceError } from './useRuntime';
+
+class Clock extends Context.Tag('Clock')<Clock, { readonly now: number }>() {}
 
 describe('useEffectResult', () => {
   afterEach(() => {
@@ -226,4 +234,120 @@ describe('useEffectResult', () => {
       expect(result.current.value).toBe(30);
     }
   });
+
+  it('should run effects that require services from the nearest provider', async () => {
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(EffectProvider, {
+        layer: Layer.succeed(Clock, { now: 1234 }),
+        children,
+      });
+
+    const { result } = renderHook(
+      () => useEffectResult(Effect.map(Clock, (clock) => clock.now), { deps: [] }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current).toEqual({ _tag: 'Success', value: 1234 });
+    });
+  });
+
+  it('should report a missing service as a MissingServiceError defect', async () => {
+    const { result } = renderHook(() =>
+      useEffectResult(Effect.map(Clock, (clock) => clock.now), { deps: [] })
+    );
+
+    await waitFor(() => {
+      expect(result.current._tag).toBe('Defect');
+    });
+
+    if (result.current._tag === 'Defect') {
+      const defect = Cause.squash(result.current.cause);
+      expect(defect).toBeInstanceOf(MissingServiceError);
+      expect((defect as MissingServiceError).keys).toEqual(['Clock']);
+    }
+  });
+
+  it('should run finalizers of the running effect on unmount', async () => {
+    const released = vi.fn();
+    const effect = Effect.scoped(
+      Effect.acquireRelease(Effect.succeed('connection'), () =>
+        Effect.sync(released)
+      ).pipe(Effect.zipRight(Effect.never))
+    );
+
+    const { unmount } = renderHook(() => useEffectResult(effect));
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    unmount();
+
+    await waitFor(() => {
+      expect(released).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should interrupt the previous effect when deps change', async () => {
+    const interrupted = vi.fn();
+    const { result, rerender } = renderHook(
+      ({ id }) =>
+        useEffectResult(
+          id === 1
+            ? Effect.never.pipe(Effect.onInterrupt(() => Effect.sync(interrupted)))
+            : Effect.succeed(id),
+          { deps: [id] }
+        ),
+      { initialProps: { id: 1 } }
+    );
+
+    rerender({ id: 2 });
+
+    await waitFor(() => {
+      expect(interrupted).toHaveBeenCalledTimes(1);
+      expect(result.current).toEqual({ _tag: 'Success', value: 2 });
+    });
+  });
+
+  it('should distinguish interruption from defects', async () => {
+    const { result } = renderHook(() => useEffectResult(Effect.interrupt));
+
+    await waitFor(() => {
+      expect(result.current._tag).toBe('Interrupted');
+    });
+
+    if (result.current._tag === 'Interrupted') {
+      expect(Cause.isInterruptedOnly(result.current.cause)).toBe(true);
+    }
+  });
+
+  it('should carry the cause of failures', async () => {
+    const { result } = renderHook(() => useEffectResult(Effect.fail('boom')));
+
+    await waitFor(() => {
+      expect(result.current._tag).toBe('Failure');
+    });
+
+    if (result.current._tag === 'Failure') {
+      expect(result.current.error).toBe('boom');
+      expect(Cause.failures(result.current.cause)).toHaveLength(1);
+    }
+  });
+
+  it('should time out with a TimeoutException and tell timeouts apart', async () => {
+    const timedOut = exitToResult(
+      await Effect.runPromiseExit(withTimeout(Effect.never, '10 millis'))
+    );
+    expect(timedOut._tag).toBe('Failure');
+    if (timedOut._tag === 'Failure') {
+      expect(timedOut.error).toBeInstanceOf(Cause.TimeoutException);
+    }
+    expect(isTimedOut(timedOut)).toBe(true);
+
+    const failed = exitToResult(
+      await Effect.runPromiseExit(withTimeout(Effect.fail('boom'), '1 second'))
+    );
+    expect(isTimedOut(failed)).toBe(false);
+
+    const effect = Effect.succeed(1);
+    expect(withTimeout(effect, undefined)).toBe(effect);
+  });
 });
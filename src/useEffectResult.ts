@@ -2,58 +2,171 @@ import { useState, useEffect } from 'react';
 import * as Effect from 'effect/Effect';
 import * as Exit from 'effect/Exit';
 import * as Cause from 'effect/Cause';
+import * as Duration from 'effect/Duration';
+import * as Fiber from 'effect/Fiber';
+import * as Runtime from 'effect/Runtime';
+import { useRuntime, reportMissingServices } from './useRuntime';
+import { suspendOnEffect, type SuspenseKey } from './useEffectSuspense';
 
+/**
+ * Outcome of running an Effect
+ *
+ * Every outcome but success carries the full Cause: `Failure` when the effect
+ * failed with an expected error, `Interrupted` when it was only interrupted,
+ * and `Defect` for anything else (defects, e.g. thrown exceptions).
+ */
 export type EffectResult<A, E> =
   | { _tag: 'Initial' }
   | { _tag: 'Loading' }
   | { _tag: 'Success'; value: A }
-  | { _tag: 'Failure'; error: E }
-  | { _tag: 'Defect'; cause: Cause.Cause<never> };
+  | { _tag: 'Failure'; error: E; cause: Cause.Cause<E> }
+  | { _tag: 'Defect'; cause: Cause.Cause<E> }
+  | { _tag: 'Interrupted'; cause: Cause.Cause<E> };
 
-export function useEffectResult<A, E = never>(
-  effect: Effect.Effect<A, E, never>,
+/**
+ * Convert the Exit of a completed effect into an EffectResult
+ */
+export function exitToResult<A, E>(exit: Exit.Exit<A, E>): EffectResult<A, E> {
+  if (Exit.isSuccess(exit)) {
+    // Success
+    return { _tag: 'Success', value: exit.value };
+  }
+
+  const cause = exit.cause;
+  const failure = Cause.failureOption(cause);
+
+  if (failure._tag === 'Some') {
+    // Normal error (Failure)
+    return { _tag: 'Failure', error: failure.value, cause };
+  }
+
+  if (Cause.isInterruptedOnly(cause)) {
+    // Interruption
+    return { _tag: 'Interrupted', cause };
+  }
+
+  // Unexpected error (Defect)
+  return { _tag: 'Defect', cause };
+}
+
+/**
+ * Get the expected error of a result, or null
+ */
+export function resultError<A, E>(result: EffectResult<A, E>): E | null {
+  return result._tag === 'Failure' ? result.error : null;
+}
+
+/**
+ * Options bounding how long the effects run by a hook may take
+ */
+export interface TimeoutOptions {
+  /**
+   * Fail a run taking longer than this with a TimeoutException
+   */
+  timeout?: Duration.DurationInput;
+}
+
+/**
+ * Fail an effect with a TimeoutException when it runs longer than `timeout`
+ *
+ * The effect is interrupted when it times out, so its finalizers run. Without
+ * a timeout the effect is returned unchanged.
+ *
+ * @param effect - The Effect to bound
+ * @param timeout - Maximum duration of the effect
+ * @returns The Effect, failing with a TimeoutException once the timeout elapses
+ */
+export function withTimeout<A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  timeout: Duration.DurationInput | undefined
+): Effect.Effect<A, E | Cause.TimeoutException, R> {
+  if (timeout === undefined) return effect;
+
+  const duration = Duration.decode(timeout);
+  return Effect.timeoutFail(effect, {
+    duration,
+    onTimeout: () => new Cause.TimeoutException(`Timed out after ${Duration.format(duration)}`),
+  });
+}
+
+/**
+ * Whether a result is a failure with a TimeoutException
+ */
+export function isTimedOut<A, E>(result: EffectResult<A, E>): boolean {
+  return result._tag === 'Failure' && Cause.isTimeoutException(result.error);
+}
+
+/**
+ * Whether a promise returned by Effect.runPromise was rejected with a
+ * TimeoutException
+ */
+export function isTimeoutRejection(thrown: unknown): boolean {
+  if (!Runtime.isFiberFailure(thrown)) return false;
+
+  const failure = Cause.failureOption(thrown[Runtime.FiberFailureCauseId]);
+  return failure._tag === 'Some' && Cause.isTimeoutException(failure.value);
+}
+
+/**
+ * Run an Effect and expose its outcome as a tagged EffectResult
+ *
+ * The effect runs in a fiber that is interrupted when the component unmounts
+ * or the deps change, so its finalizers run.
+ *
+ * With `suspense: true` the component suspends until the effect settles,
+ * caching the outcome by `key`; failures and defects are still returned as
+ * results rather than thrown.
+ *
+ * @param effect - The Effect to run
+ * @param options - Optional deps, or Suspense mode with a cache key
+ * @returns The current EffectResult
+ */
+export function useEffectResult<A, E = never, R = never>(
+  effect: Effect.Effect<A, E, R>,
   options?: {
     deps?: React.DependencyList;
+    suspense?: boolean;
+    key?: SuspenseKey;
   }
 ): EffectResult<A, E> {
+  const runtime = useRuntime<R>();
   const [result, setResult] = useState<EffectResult<A, E>>({
     _tag: 'Initial',
   });
 
   const deps = options?.deps || [];
+  const suspense = options?.suspense ?? false;
 
   useEffect(() => {
+    // Suspense mode runs the effect during render instead
+    if (suspense) return;
+
     let cancelled = false;
 
     // Set loading state
     setResult({ _tag: 'Loading' });
 
-    Effect.runPromiseExit(effect).then((exit) => {
-      if (cancelled) return;
+    const fiber = Runtime.runFork(runtime)(reportMissingServices(effect));
 
-      if (Exit.isSuccess(exit)) {
-        // Success
-        setResult({ _tag: 'Success', value: exit.value });
-      } else {
-        // Failure or Defect
-        const failure = Cause.failureOption(exit.cause);
-
-        if (failure._tag === 'Some') {
-          // Normal error (Failure)
-          setResult({ _tag: 'Failure', error: failure.value });
-        } else {
-          // Unexpected error (Defect)
-          const defectCause = exit.cause as unknown as Cause.Cause<never>;
-          setResult({ _tag: 'Defect', cause: defectCause });
-        }
-      }
+    Effect.runPromise(Fiber.await(fiber)).then((exit) => {
+      if (cancelled) return;
+      setResult(exitToResult(exit));
     });
 
+    // Cleanup: interrupt the fiber so that its finalizers run
     return () => {
       cancelled = true;
+      Effect.runFork(Fiber.interrupt(fiber));
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, deps);
+  }, [...deps, runtime, suspense]);
+
+  if (suspense) {
+    if (options?.key === undefined) {
+      throw new Error('useEffectResult requires a key when suspense is enabled');
+    }
+    return exitToResult(suspendOnEffect(runtime, options.key, effect));
+  }
 
   return result;
 }
@@ -2,6 +2,16 @@ import { describe, it, expect, afterEach, vi } from 'vitest';
 import { renderHook, waitFor, cleanup } from '@testing-library/react';
 import { useEffectRun } from './useEffectRun';
 import * as Effect from 'effect/Effect';
+import * as Cause from 'effect/Cause';
+import * as Context from 'effect/Context';
+import * as Layer from 'effect/Layer';
+import React from 'react';
+import { EffectProvider } from './useService';
+
+class Greeting extends Context.Tag('Greeting')<
+  Greeting,
+  { readonly text: string }
+>() {}
 
 describe('useEffectRun', () => {
   afterEach(() => {
@@ -262,4 +272,79 @@ describe('useEffectRun', () => {
 
     expect(runCount).toBe(3);
   });
+
+  it('should run effects that require services from the nearest provider', async () => {
+    const wrapper = ({ children }: { children: React.ReactNode }) =>
+      React.createElement(EffectProvider, {
+        layer: Layer.succeed(Greeting, { text: 'hello' }),
+        children,
+      });
+
+    const { result } = renderHook(
+      () =>
+        useEffectRun(
+          Effect.map(Greeting, (greeting) => greeting.text),
+          { deps: [] }
+        ),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe('hello');
+    });
+  });
+
+  it('should distinguish defects from interruption', async () => {
+    const onDefect = vi.fn();
+    const { result: defect } = renderHook(() =>
+      useEffectRun(Effect.die('boom'), { onDefect })
+    );
+    const { result: interrupted } = renderHook(() =>
+      useEffectRun(Effect.interrupt, { onDefect })
+    );
+
+    await waitFor(() => {
+      expect(defect.current.result._tag).toBe('Defect');
+      expect(interrupted.current.result._tag).toBe('Interrupted');
+    });
+    expect(onDefect).toHaveBeenCalledTimes(1);
+    expect(defect.current.error).toBeNull();
+  });
+
+  it('should delay runs with throttle', async () => {
+    const load = vi.fn((id: number) => id);
+
+    const { result, rerender } = renderHook(
+      ({ id }) =>
+        useEffectRun(Effect.sync(() => load(id)), { deps: [id], throttle: '200 millis' }),
+      { initialProps: { id: 1 } }
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe(1);
+    });
+
+    rerender({ id: 2 });
+    rerender({ id: 3 });
+    expect(result.current.loading).toBe(true);
+
+    await waitFor(() => {
+      expect(result.current.data).toBe(3);
+    });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report a timeout without calling onFailure', async () => {
+    const onFailure = vi.fn();
+    const { result } = renderHook(() =>
+      useEffectRun(Effect.never, { timeout: '20 millis', onFailure })
+    );
+
+    await waitFor(() => {
+      expect(result.current.timedOut).toBe(true);
+    });
+    expect(result.current.loading).toBe(false);
+    expect(result.current.error).toBeInstanceOf(Cause.TimeoutException);
+    expect(onFailure).not.toHaveBeenCalled();
+  });
 });
@@ -3,10 +3,21 @@ import * as Effect from 'effect/Effect';
 import * as Fiber from 'effect/Fiber';
 import * as Exit from 'effect/Exit';
 import * as Cause from 'effect/Cause';
+import * as Runtime from 'effect/Runtime';
+import { useRuntime, reportMissingServices } from './useRuntime';
+import {
+  exitToResult,
+  isTimedOut,
+  resultError,
+  withTimeout,
+  type EffectResult,
+  type TimeoutOptions,
+} from './useEffectResult';
+import { useRateLimit, type RateLimitOptions } from './useEffectCallback';
 
-export function useEffectRun<A, E = never>(
-  effect: Effect.Effect<A, E, never>,
-  options?: {
+export function useEffectRun<A, E = never, R = never>(
+  effect: Effect.Effect<A, E, R>,
+  options?: RateLimitOptions & TimeoutOptions & {
     deps?: React.DependencyList;
     onSuccess?: (_value: A) => void;
     onFailure?: (_error: E) => void;
@@ -14,95 +25,90 @@ export function useEffectRun<A, E = never>(
   }
 ): {
   data: A | null;
-  error: E | null;
+  error: E | Cause.TimeoutException | null;
+  result: EffectResult<A, E | Cause.TimeoutException>;
   loading: boolean;
-  fiber: Fiber.RuntimeFiber<A, E> | null;
+  timedOut: boolean;
+  fiber: Fiber.RuntimeFiber<A, E | Cause.TimeoutException> | null;
   rerun: () => void;
 } {
+  const runtime = useRuntime<R>();
   const [state, setState] = useState<{
     data: A | null;
-    error: E | null;
+    error: E | Cause.TimeoutException | null;
+    result: EffectResult<A, E | Cause.TimeoutException>;
     loading: boolean;
-    fiber: Fiber.RuntimeFiber<A, E> | null;
+    timedOut: boolean;
+    fiber: Fiber.RuntimeFiber<A, E | Cause.TimeoutException> | null;
   }>({
     data: null,
     error: null,
+    result: { _tag: 'Loading' },
     loading: true,
+    timedOut: false,
     fiber: null,
   });
 
   const [rerunCounter, setRerunCounter] = useState(0);
   const deps = options?.deps || [];
+  const rateLimit = useRateLimit(options);
 
   useEffect(() => {
+    let cancelled = false;
+
     // Start loading
-    setState((prev) => ({ ...prev, loading: true, error: null }));
+    setState((prev) => ({
+      ...prev,
+      loading: true,
+      error: null,
+      result: { _tag: 'Loading' },
+      timedOut: false,
+    }));
 
-    // Run the effect and get the fiber
-    const fiber = Effect.runFork(effect);
+    // Run the effect and get the fiber; debounce and throttle delay its start,
+    // and the timeout only counts once it has started
+    const fiber = Runtime.runFork(runtime)(
+      rateLimit(withTimeout(reportMissingServices(effect), options?.timeout))
+    );
 
     // Store fiber in state
     setState((prev) => ({ ...prev, fiber }));
 
     // Wait for fiber completion using Effect.runPromise
-    Fiber.await(fiber)
-      .pipe(
-        Effect.flatMap((exit) =>
-          Effect.sync(() => {
-            if (Exit.isSuccess(exit)) {
-              // Success
-              setState({
-                data: exit.value,
-                error: null,
-                loading: false,
-                fiber: null,
-              });
-              options?.onSuccess?.(exit.value);
-            } else {
-              // Failure or interruption
-              const failure = Cause.failureOption(exit.cause);
+    Effect.runPromise(Fiber.await(fiber)).then((exit) => {
+      // Ignore fibers interrupted by a deps change, rerun or unmount
+      if (cancelled) return;
 
-              if (failure._tag === 'Some') {
-                // Normal error
-                setState({
-                  data: null,
-                  error: failure.value,
-                  loading: false,
-                  fiber: null,
-                });
-                options?.onFailure?.(failure.value);
-              } else {
-                // Defect or interruption
-                setState({
-                  data: null,
-                  error: null,
-                  loading: false,
-                  fiber: null,
-                });
-                // For defects, we need to extract the cause without the error type
-                if (options?.onDefect) {
-                  const defectCause = exit.cause as unknown as Cause.Cause<never>;
-                  options.onDefect(defectCause);
-                }
-              }
-            }
-          })
-        ),
-        Effect.catchAllDefect(() => Effect.void),
-        Effect.runPromise
-      )
-      .catch(() => {
-        // Silently handle interruption errors
+      const result = exitToResult(exit);
+      const timedOut = isTimedOut(result);
+      setState({
+        data: Exit.isSuccess(exit) ? exit.value : null,
+        error: resultError(result),
+        result,
+        loading: false,
+        timedOut,
+        fiber: null,
       });
 
+      if (result._tag === 'Success') {
+        options?.onSuccess?.(result.value);
+      } else if (result._tag === 'Failure' && !timedOut) {
+        options?.onFailure?.(result.error as E);
+      } else if (result._tag === 'Defect') {
+        // For defects, we need to extract the cause without the error type
+        options?.onDefect?.(result.cause as unknown as Cause.Cause<never>);
+      }
+    });
+
     // Cleanup: interrupt the fiber
     return () => {
+      cancelled = true;
       Effect.runFork(
         Fiber.interrupt(fiber).pipe(Effect.catchAll(() => Effect.void))
       );
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [...deps, rerunCounter]);
+  }, [...deps, rerunCounter, runtime]);
 
   const rerun = useCallback(() => {
     setRerunCounter((prev) => prev + 1);
@@ -111,7 +117,9 @@ export function useEffectRun<A, E = never>(
   return {
     data: state.data,
     error: state.error,
+    result: state.result,
     loading: state.loading,
+    timedOut: state.timedOut,
     fiber: state.fiber,
     rerun,
   };
@@ -0,0 +1,361 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { render, cleanup, screen, waitFor, fireEvent } from '@testing-library/react';
+import { useEffectSuspense, clearEffectSuspense } from './useEffectSuspense';
+import { useEffectQuery } from './useEffectQuery';
+import { useEffectResult } from './useEffectResult';
+import { makeQueryClient, QueryClientProvider } from './useQueryClient';
+import { EffectErrorBoundary } from './useEffectErrorBoundary';
+import { EffectProvider } from './useService';
+import * as Effect from 'effect/Effect';
+import * as Cause from 'effect/Cause';
+import * as Context from 'effect/Context';
+import * as Layer from 'effect/Layer';
+import * as Option from 'effect/Option';
+import * as Runtime from 'effect/Runtime';
+import React, { Suspense } from 'react';
+
+class Greeting extends Context.Tag('Greeting')<Greeting, string>() {}
+
+class TestErrorBoundary extends React.Component<
+  { children: React.ReactNode },
+  { error: unknown }
+> {
+  state = { error: null as unknown };
+
+  static getDerivedStateFromError(error: unknown) {
+    return { error };
+  }
+
+  render() {
+    if (this.state.error !== null) {
+      const error = this.state.error;
+      const failure = Runtime.isFiberFailure(error)
+        ? Option.getOrNull(
+            Cause.failureOption(error[Runtime.FiberFailureCauseId])
+          )
+        : null;
+      return <div>caught:{String(failure)}</div>;
+    }
+    return this.props.children;
+  }
+}
+
+describe('useEffectSuspense', () => {
+  afterEach(() => {
+    cleanup();
+    clearEffectSuspense();
+  });
+
+  it('should suspend until the effect succeeds', async () => {
+    function Value() {
+      const value = useEffectSuspense(
+        'value',
+        Effect.as(Effect.sleep('10 millis'), 'resolved')
+      );
+      return <div>value:{value}</div>;
+    }
+
+    render(
+      <Suspense fallback={<div>loading</div>}>
+        <Value />
+      </Suspense>
+    );
+
+    expect(screen.getByText('loading')).toBeInTheDocument();
+
+    await waitFor(() => {
+      expect(screen.getByText('value:resolved')).toBeInTheDocument();
+    });
+  });
+
+  it('should run the effect once for every component sharing a key', async () => {
+    const run = vi.fn(() => 'shared');
+    const effect = Effect.sync(run);
+
+    function Value({ label }: { label: string }) {
+      const value = useEffectSuspense(['shared', 1], effect);
+      return <div>{label}:{value}</div>;
+    }
+
+    const { rerender } = render(
+      <Suspense fallback={<div>loading</div>}>
+        <Value label="a" />
+        <Value label="b" />
+      </Suspense>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('a:shared')).toBeInTheDocument();
+      expect(screen.getByText('b:shared')).toBeInTheDocument();
+    });
+
+    rerender(
+      <Suspense fallback={<div>loading</div>}>
+        <Value label="a" />
+        <Value label="b" />
+      </Suspense>
+    );
+
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw failures to the nearest error boundary', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    function Value() {
+      const value = useEffectSuspense('failing', Effect.fail('not found'));
+      return <div>value:{value}</div>;
+    }
+
+    render(
+      <TestErrorBoundary>
+        <Suspense fallback={<div>loading</div>}>
+          <Value />
+        </Suspense>
+      </TestErrorBoundary>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('caught:not found')).toBeInTheDocument();
+    });
+
+    consoleError.mockRestore();
+  });
+
+  it('should run the effect again after its key is cleared', async () => {
+    let count = 0;
+    const effect = Effect.sync(() => ++count);
+
+    function Value() {
+      const value = useEffectSuspense('counter', effect);
+      return <div>count:{value}</div>;
+    }
+
+    const { unmount } = render(
+      <Suspense fallback={<div>loading</div>}>
+        <Value />
+      </Suspense>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('count:1')).toBeInTheDocument();
+    });
+
+    unmount();
+    clearEffectSuspense('counter');
+
+    render(
+      <Suspense fallback={<div>loading</div>}>
+        <Value />
+      </Suspense>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('count:2')).toBeInTheDocument();
+    });
+  });
+
+  it('should cache results per provider runtime', async () => {
+    function Value() {
+      const value = useEffectSuspense('greeting', Greeting);
+      return <div>greeting:{value}</div>;
+    }
+
+    const english = Layer.succeed(Greeting, 'hello');
+    const french = Layer.succeed(Greeting, 'bonjour');
+
+    render(
+      <>
+        <EffectProvider layer={english}>
+          <Suspense fallback={<div>loading</div>}>
+            <Value />
+          </Suspense>
+        </EffectProvider>
+        <EffectProvider layer={french}>
+          <Suspense fallback={<div>loading</div>}>
+            <Value />
+          </Suspense>
+        </EffectProvider>
+      </>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('greeting:hello')).toBeInTheDocument();
+      expect(screen.getByText('greeting:bonjour')).toBeInTheDocument();
+    });
+  });
+
+  it('should interrupt a running effect when its key is cleared', async () => {
+    const interrupted = vi.fn();
+
+    function Value() {
+      const value = useEffectSuspense(
+        'slow',
+        Effect.as(Effect.sleep('1 second'), 'done').pipe(
+          Effect.onInterrupt(() => Effect.sync(interrupted))
+        )
+      );
+      return <div>value:{value}</div>;
+    }
+
+    render(
+      <Suspense fallback={<div>loading</div>}>
+        <Value />
+      </Suspense>
+    );
+
+    expect(screen.getByText('loading')).toBeInTheDocument();
+    clearEffectSuspense('slow');
+
+    await waitFor(() => {
+      expect(interrupted).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should support suspense mode in useEffectQuery', async () => {
+    function Value() {
+      const { data, loading } = useEffectQuery(
+        Effect.as(Effect.sleep('10 millis'), 42),
+        [],
+        { suspense: true, key: 'query' }
+      );
+      return <div>data:{data}:{String(loading)}</div>;
+    }
+
+    render(
+      <Suspense fallback={<div>loading</div>}>
+        <Value />
+      </Suspense>
+    );
+
+    expect(screen.getByText('loading')).toBeInTheDocument();
+
+    await waitFor(() => {
+      expect(screen.getByText('data:42:false')).toBeInTheDocument();
+    });
+  });
+
+  it('should keep keyed suspense queries in the QueryClient of the provider', async () => {
+    const client = makeQueryClient();
+    let count = 0;
+    const effect = Effect.sync(() => ++count);
+
+    function Value() {
+      const { data } = useEffectQuery(effect, [], { suspense: true, key: ['count'] });
+      return <div>count:{data}</div>;
+    }
+
+    render(
+      <QueryClientProvider client={client}>
+        <Suspense fallback={<div>loading</div>}>
+          <Value />
+        </Suspense>
+      </QueryClientProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('count:1')).toBeInTheDocument();
+    });
+    expect(client.getState(['count']).data).toBe(1);
+
+    client.invalidateQueries(['count']);
+    await waitFor(() => {
+      expect(screen.getByText('count:2')).toBeInTheDocument();
+    });
+
+    client.setQueryData<number>(['count'], () => 10);
+    await waitFor(() => {
+      expect(screen.getByText('count:10')).toBeInTheDocument();
+    });
+  });
+
+  it('should not share keyed suspense queries between providers', async () => {
+    function Value({ value }: { value: string }) {
+      const { data } = useEffectQuery(Effect.succeed(value), [], {
+        suspense: true,
+        key: 'shared',
+      });
+      return <div>data:{data}</div>;
+    }
+
+    render(
+      <>
+        <QueryClientProvider client={makeQueryClient()}>
+          <Suspense fallback={<div>loading</div>}>
+            <Value value="a" />
+          </Suspense>
+        </QueryClientProvider>
+        <QueryClientProvider client={makeQueryClient()}>
+          <Suspense fallback={<div>loading</div>}>
+            <Value value="b" />
+          </Suspense>
+        </QueryClientProvider>
+      </>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('data:a')).toBeInTheDocument();
+      expect(screen.getByText('data:b')).toBeInTheDocument();
+    });
+  });
+
+  it('should load a failed keyed suspense query again when its error boundary resets', async () => {
+    const client = makeQueryClient();
+    let attempts = 0;
+    const effect = Effect.suspend(() =>
+      ++attempts === 1 ? Effect.fail('first') : Effect.succeed('second')
+    );
+
+    function Value() {
+      const { data } = useEffectQuery(effect, [], { suspense: true, key: 'flaky' });
+      return <div>data:{data}</div>;
+    }
+
+    render(
+      <QueryClientProvider client={client}>
+        <EffectErrorBoundary
+          fallback={(_cause, reset) => <button onClick={reset}>retry</button>}
+        >
+          <Suspense fallback={<div>loading</div>}>
+            <Value />
+          </Suspense>
+        </EffectErrorBoundary>
+      </QueryClientProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('retry')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByText('retry'));
+
+    await waitFor(() => {
+      expect(screen.getByText('data:second')).toBeInTheDocument();
+    });
+    expect(attempts).toBe(2);
+  });
+
+  it('should return settled results in useEffectResult suspense mode', async () => {
+    function Value() {
+      const result = useEffectResult(Effect.fail('bad input'), {
+        suspense: true,
+        key: 'result',
+      });
+      return (
+        <div>
+          {result._tag}:{result._tag === 'Failure' ? result.error : ''}
+        </div>
+      );
+    }
+
+    render(
+      <Suspense fallback={<div>loading</div>}>
+        <Value />
+      </Suspense>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Failure:bad input')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import * as Cause from 'effect/Cause';
+import * as Effect from 'effect/Effect';
+import * as Exit from 'effect/Exit';
+import * as Fiber from 'effect/Fiber';
+import * as Runtime from 'effect/Runtime';
+import { useRuntime, reportMissingServices } from './useRuntime';
+
+/**
+ * Key identifying a suspended effect; arrays are serialized with JSON.stringify
+ */
+export type SuspenseKey = string | ReadonlyArray<unknown>;
+
+type SuspenseEntry = { readonly generation: number } & (
+  | { _tag: 'Pending'; promise: Promise<void> }
+  | { _tag: 'Settled'; exit: Exit.Exit<any, any> }
+);
+
+// Results of suspended effects by runtime, so that providers with different
+// services never share them. A runtime's results are dropped along with it,
+// e.g. when its EffectProvider unmounts or its layer changes.
+const suspenseCaches = new WeakMap<object, Map<string, SuspenseEntry>>();
+
+// Suspended effects still running, by key, so that clearing a key interrupts them
+const pendingFibers = new Map<string, Set<Fiber.RuntimeFiber<unknown, unknown>>>();
+
+// The caches of every runtime cannot be reached from clearEffectSuspense, so
+// each clear starts a new generation, and entries started in an earlier
+// generation than the last clear of their key are dropped when read
+let generation = 0;
+let clearedAll = 0;
+const clearedKeys = new Map<string, number>();
+
+// How to clear the result behind a thrown failure, so that an error boundary
+// can run the effect again on reset
+const failureClears = new WeakMap<object, () => void>();
+
+function serializeKey(key: SuspenseKey): string {
+  return typeof key === 'string' ? key : JSON.stringify(key);
+}
+
+function cacheOf<R>(runtime: Runtime.Runtime<R>): Map<string, SuspenseEntry> {
+  let cache = suspenseCaches.get(runtime);
+  if (!cache) {
+    cache = new Map();
+    suspenseCaches.set(runtime, cache);
+  }
+  return cache;
+}
+
+function isCleared(cacheKey: string, entry: SuspenseEntry): boolean {
+  return entry.generation < Math.max(clearedAll, clearedKeys.get(cacheKey) ?? 0);
+}
+
+/**
+ * Read the Exit of a keyed effect, starting it on first use and throwing a
+ * promise (suspending the calling component) until it settles
+ *
+ * Results are cached per runtime: the same key run on the runtimes of two
+ * providers runs the effect once for each.
+ *
+ * @param runtime - Runtime to run the effect on
+ * @param key - Cache key of the effect
+ * @param effect - The Effect to run
+ * @returns The Exit of the effect
+ */
+export function suspendOnEffect<A, E, R>(
+  runtime: Runtime.Runtime<R>,
+  key: SuspenseKey,
+  effect: Effect.Effect<A, E, R>
+): Exit.Exit<A, E> {
+  const cache = cacheOf(runtime);
+  const cacheKey = serializeKey(key);
+  const cached = cache.get(cacheKey);
+  const entry = cached && isCleared(cacheKey, cached) ? undefined : cached;
+
+  if (entry?._tag === 'Settled') {
+    return entry.exit;
+  }
+
+  if (entry?._tag === 'Pending') {
+    throw entry.promise;
+  }
+
+  const fiber = Runtime.runFork(runtime)(reportMissingServices(effect));
+  const fibers = pendingFibers.get(cacheKey) ?? new Set();
+  fibers.add(fiber);
+  pendingFibers.set(cacheKey, fibers);
+
+  const promise = Effect.runPromise(Fiber.await(fiber)).then((exit) => {
+    fibers.delete(fiber);
+    if (fibers.size === 0 && pendingFibers.get(cacheKey) === fibers) {
+      pendingFibers.delete(cacheKey);
+    }
+
+    // Only settle if the entry was not cleared in the meantime
+    if (cache.get(cacheKey) === pending && !isCleared(cacheKey, pending)) {
+      cache.set(cacheKey, { _tag: 'Settled', generation: pending.generation, exit });
+    }
+  });
+
+  const pending: SuspenseEntry = { _tag: 'Pending', generation, promise };
+  cache.set(cacheKey, pending);
+  throw pending.promise;
+}
+
+/**
+ * Throw the Cause of a suspended effect as a FiberFailure, remembering the
+ * key it was cached under
+ *
+ * @param runtime - Runtime the effect was run on
+ * @param key - Cache key of the failed effect
+ * @param cause - The Cause of the failure
+ * @param clear - Clears the failed result instead of the Suspense cache entry of the key,
+ *   for results cached elsewhere
+ */
+export function throwSuspenseFailure<E, R>(
+  runtime: Runtime.Runtime<R>,
+  key: SuspenseKey,
+  cause: Cause.Cause<E>,
+  clear?: () => void
+): never {
+  const failure = Runtime.makeFiberFailure(cause);
+  const cacheKey = serializeKey(key);
+  failureClears.set(failure, clear ?? (() => cacheOf(runtime).delete(cacheKey)));
+  throw failure;
+}
+
+/**
+ * Remove the cached result behind an error thrown by throwSuspenseFailure so
+ * that the failed effect runs again on the next render
+ *
+ * @param error - The caught error; other errors are ignored
+ */
+export function clearSuspenseFailure(error: unknown): void {
+  if (typeof error !== 'object' || error === null) return;
+
+  failureClears.get(error)?.();
+}
+
+/**
+ * Remove cached results of suspended effects, in every runtime, so that they
+ * run again on the next render; effects still running are interrupted
+ *
+ * @param key - Key to clear; clears every entry if omitted
+ */
+export function clearEffectSuspense(key?: SuspenseKey): void {
+  generation += 1;
+
+  if (key === undefined) {
+    clearedAll = generation;
+    clearedKeys.clear();
+    for (const fibers of pendingFibers.values()) {
+      fibers.forEach((fiber) => Effect.runFork(Fiber.interrupt(fiber)));
+    }
+    pendingFibers.clear();
+    return;
+  }
+
+  const cacheKey = serializeKey(key);
+  clearedKeys.set(cacheKey, generation);
+  pendingFibers.get(cacheKey)?.forEach((fiber) => Effect.runFork(Fiber.interrupt(fiber)));
+  pendingFibers.delete(cacheKey);
+}
+
+/**
+ * Run an Effect with React Suspense
+ *
+ * Suspends the component while the effect runs and returns its value. A
+ * failure is thrown to the nearest error boundary as a FiberFailure carrying
+ * the full Cause. Results are cached by runtime and key, so re-renders and
+ * other components below the same provider using the same key do not run the
+ * effect again. They are dropped along with the runtime, or by
+ * `clearEffectSuspense`, which also interrupts the effect while it runs.
+ *
+ * @param key - Cache key identifying the effect and its inputs
+ * @param effect - The Effect to run
+ * @returns The success value of the effect
+ */
+export function useEffectSuspense<A, E = never, R = never>(
+  key: SuspenseKey,
+  effect: Effect.Effect<A, E, R>
+): A {
+  const runtime = useRuntime<R>();
+  const exit = suspendOnEffect(runtime, key, effect);
+
+  if (Exit.isSuccess(exit)) {
+    return exit.value;
+  }
+
+  return throwSuspenseFailure(runtime, key, exit.cause);
+}
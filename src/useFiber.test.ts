@@ -1,7 +1,9 @@
 import { describe, it, expect, afterEach, vi } from 'vitest';
-import { renderHook, waitFor, cleanup } from '@testing-library/react';
+import { renderHook, waitFor, cleanup, act } from '@testing-library/react';
 import { useFiber } from './useFiber';
 import * as Effect from 'effect/Effect';
+import * as Cause from 'effect/Cause';
+import * as Exit from 'effect/Exit';
 
 describe('useFiber', () => {
   afterEach(() => {
@@ -223,4 +225,181 @@ describe('useFiber', () => {
       { timeout: 500 }
     );
   });
+
+  it('should fail with a TimeoutException after the timeout', async () => {
+    const onFailure = vi.fn();
+    const { result } = renderHook(() =>
+      useFiber(Effect.never, { autoStart: true, timeout: '20 millis', onFailure })
+    );
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('failed');
+    });
+    expect(result.current.timedOut).toBe(true);
+    expect(result.current.error).toBeInstanceOf(Cause.TimeoutException);
+    expect(onFailure).not.toHaveBeenCalled();
+  });
+
+  it('should not start another fiber while one is running', async () => {
+    const run = vi.fn();
+    const { result } = renderHook(() =>
+      useFiber(Effect.sync(run).pipe(Effect.zipRight(Effect.never)))
+    );
+
+    act(() => {
+      result.current.start();
+    });
+    const fiberId = result.current.fiberId;
+
+    act(() => {
+      result.current.start();
+    });
+
+    await waitFor(() => {
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+    expect(result.current.fiberId).toBe(fiberId);
+  });
+
+  it('should restart after interrupting the running fiber', async () => {
+    const events: string[] = [];
+    let runs = 0;
+    const { result } = renderHook(() =>
+      useFiber(
+        Effect.suspend(() => {
+          const run = ++runs;
+          events.push(`start ${run}`);
+          return Effect.sleep('50 millis').pipe(
+            Effect.as(run),
+            Effect.onInterrupt(() => Effect.sync(() => events.push(`interrupted ${run}`)))
+          );
+        })
+      )
+    );
+
+    act(() => {
+      result.current.start();
+    });
+    const firstId = result.current.fiberId;
+
+    act(() => {
+      result.current.restart();
+    });
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('done');
+    });
+    expect(result.current.result).toBe(2);
+    expect(result.current.fiberId).not.toEqual(firstId);
+    expect(events).toEqual(['start 1', 'interrupted 1', 'start 2']);
+  });
+
+  it('should wait for every interrupted fiber when restarting twice', async () => {
+    const events: string[] = [];
+    let runs = 0;
+    const { result } = renderHook(() =>
+      useFiber(
+        Effect.suspend(() => {
+          const run = ++runs;
+          events.push(`start ${run}`);
+          return Effect.never.pipe(
+            Effect.as(run),
+            Effect.ensuring(
+              Effect.sleep('30 millis').pipe(
+                Effect.zipRight(Effect.sync(() => events.push(`released ${run}`)))
+              )
+            )
+          );
+        })
+      )
+    );
+
+    act(() => {
+      result.current.start();
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    act(() => {
+      result.current.restart();
+    });
+    act(() => {
+      result.current.restart();
+    });
+
+    await waitFor(() => {
+      expect(events).toContain('start 2');
+    });
+    expect(events).toEqual(['start 1', 'released 1', 'start 2']);
+  });
+
+  it('should set the interrupted status once the fiber has completed', async () => {
+    let release!: () => void;
+    const finalizing = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const { result } = renderHook(() =>
+      useFiber(Effect.never.pipe(Effect.ensuring(Effect.promise(() => finalizing))))
+    );
+
+    act(() => {
+      result.current.start();
+    });
+    act(() => {
+      result.current.interrupt();
+    });
+    expect(result.current.status).toBe('running');
+
+    release();
+    await waitFor(() => {
+      expect(result.current.status).toBe('interrupted');
+    });
+  });
+
+  it('should set the failed status when the fiber dies', async () => {
+    const { result } = renderHook(() => useFiber(Effect.die('boom')));
+
+    act(() => {
+      result.current.start();
+    });
+
+    await waitFor(() => {
+      expect(result.current.status).toBe('failed');
+    });
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should await the Exit of the fiber', async () => {
+    const { result } = renderHook(() => useFiber(Effect.fail('boom')));
+
+    expect(await result.current.await()).toBeNull();
+
+    act(() => {
+      result.current.start();
+    });
+
+    const exit = await act(() => result.current.await());
+    expect(exit).toEqual(Exit.fail('boom'));
+  });
+
+  it('should expose the fiber id and Fiber.status', async () => {
+    const { result } = renderHook(() => useFiber(Effect.never));
+
+    expect(result.current.fiberId).toBeNull();
+    expect(await result.current.fiberStatus()).toBeNull();
+
+    act(() => {
+      result.current.start();
+    });
+
+    expect(result.current.fiberId?._tag).toBe('Runtime');
+    expect((await result.current.fiberStatus())?._tag).toBe('Suspended');
+
+    act(() => {
+      result.current.interrupt();
+    });
+    await waitFor(() => {
+      expect(result.current.status).toBe('interrupted');
+    });
+    expect((await result.current.fiberStatus())?._tag).toBe('Done');
+  });
 });
@@ -1,84 +1,176 @@
 import { useEffect, useState, useCallback, useRef } from 'react';
+import * as Cause from 'effect/Cause';
 import * as Effect from 'effect/Effect';
+import * as Exit from 'effect/Exit';
 import * as Fiber from 'effect/Fiber';
+import * as FiberId from 'effect/FiberId';
+import * as FiberStatus from 'effect/FiberStatus';
+import * as Runtime from 'effect/Runtime';
+import { useRuntime, reportMissingServices } from './useRuntime';
+import { withTimeout, type TimeoutOptions } from './useEffectResult';
 
-export function useFiber<A, E = never>(
-  effect: Effect.Effect<A, E, never>,
-  options?: {
+/**
+ * Status of the fiber run by useFiber, set from its Exit once it completes
+ *
+ * - `failed`: the fiber failed or died
+ * - `interrupted`: the fiber was only interrupted
+ */
+export type FiberRunStatus = 'idle' | 'running' | 'done' | 'failed' | 'interrupted';
+
+interface FiberState<A, E> {
+  status: FiberRunStatus;
+  result: A | null;
+  error: E | null;
+  timedOut: boolean;
+  fiberId: FiberId.Runtime | null;
+}
+
+const idleState: FiberState<never, never> = {
+  status: 'idle',
+  result: null,
+  error: null,
+  timedOut: false,
+  fiberId: null,
+};
+
+/**
+ * Run an Effect in a fiber started and interrupted on demand
+ *
+ * `start` does nothing while the fiber runs; `restart` interrupts the running
+ * fiber, waits for its finalizers, and runs the effect again. `interrupt`
+ * only requests the interruption: `status` becomes `interrupted` once the
+ * fiber has actually completed, like every other status, which follows the
+ * Exit of the fiber. Only the latest fiber updates the state. The fiber is
+ * interrupted when the component unmounts.
+ *
+ * @param effect - The Effect to run
+ * @param options - Auto start, timeout and callbacks
+ * @returns Object containing start, restart, interrupt, await, the state of the fiber, its id and its Fiber.status
+ */
+export function useFiber<A, E = never, R = never>(
+  effect: Effect.Effect<A, E, R>,
+  options?: TimeoutOptions & {
     autoStart?: boolean;
     onSuccess?: (_value: A) => void;
     onFailure?: (_error: E) => void;
   }
 ): {
   start: () => void;
+  restart: () => void;
   interrupt: () => void;
-  status: 'idle' | 'running' | 'done' | 'failed' | 'interrupted';
+  /**
+   * Wait for the current fiber and resolve with its Exit, or with null when
+   * no fiber was started
+   */
+  await: () => Promise<Exit.Exit<A, E | Cause.TimeoutException> | null>;
+  status: FiberRunStatus;
   result: A | null;
-  error: E | null;
+  error: E | Cause.TimeoutException | null;
+  timedOut: boolean;
+  /**
+   * Id of the current fiber, e.g. to find it in traces
+   */
+  fiberId: FiberId.Runtime | null;
+  /**
+   * Get the Fiber.status of the current fiber (Running, Suspended or Done),
+   * or null when no fiber was started
+   */
+  fiberStatus: () => Promise<FiberStatus.FiberStatus | null>;
 } {
-  const [status, setStatus] = useState<
-    'idle' | 'running' | 'done' | 'failed' | 'interrupted'
-  >('idle');
-  const [result, setResult] = useState<A | null>(null);
-  const [error, setError] = useState<E | null>(null);
-  const fiberRef = useRef<Fiber.RuntimeFiber<A, E> | null>(null);
+  const runtime = useRuntime<R>();
+  const [state, setState] = useState<FiberState<A, E | Cause.TimeoutException>>(idleState);
+  const fiberRef = useRef<Fiber.RuntimeFiber<A, E | Cause.TimeoutException> | null>(null);
 
-  const start = useCallback(() => {
-    setStatus('running');
-    setResult(null);
-    setError(null);
+  const run = useCallback(() => {
+    const previous = fiberRef.current;
+    const task = withTimeout(reportMissingServices(effect), options?.timeout);
 
-    const fiber = Effect.runFork(effect);
+    // A restarted fiber first waits for the running one to be interrupted;
+    // the wait is uninterruptible so that a further restart waits for it too
+    const fiber = Runtime.runFork(runtime)(
+      previous && previous.unsafePoll() === null
+        ? Effect.zipRight(Effect.uninterruptible(Fiber.interrupt(previous)), task)
+        : task
+    );
     fiberRef.current = fiber;
 
-    Fiber.join(fiber).pipe(
-      Effect.flatMap((value) =>
-        Effect.sync(() => {
-          setResult(value);
-          setStatus('done');
-          options?.onSuccess?.(value);
-        })
-      ),
-      Effect.catchAll((err) =>
-        Effect.sync(() => {
-          setError(err);
-          setStatus('failed');
-          options?.onFailure?.(err);
-        })
-      ),
-      Effect.catchAllDefect(() => Effect.void),
-      Effect.runPromise
-    ).catch(() => {
-      // Silently handle any interruption errors
+    setState({ ...idleState, status: 'running', fiberId: fiber.id() });
+
+    Effect.runPromise(Fiber.await(fiber)).then((exit) => {
+      // Ignore fibers replaced by a restart or dropped on unmount
+      if (fiberRef.current !== fiber) return;
+
+      if (Exit.isSuccess(exit)) {
+        setState((prev) => ({ ...prev, status: 'done', result: exit.value }));
+        options?.onSuccess?.(exit.value);
+        return;
+      }
+
+      if (Cause.isInterruptedOnly(exit.cause)) {
+        setState((prev) => ({ ...prev, status: 'interrupted' }));
+        return;
+      }
+
+      const failure = Cause.failureOption(exit.cause);
+      const error = failure._tag === 'Some' ? failure.value : null;
+      const timedOut = Cause.isTimeoutException(error);
+      setState((prev) => ({ ...prev, status: 'failed', error, timedOut }));
+
+      // Timeouts are reported by timedOut rather than onFailure
+      if (failure._tag === 'Some' && !timedOut) {
+        options?.onFailure?.(failure.value as E);
+      }
     });
-  }, [effect, options?.onSuccess, options?.onFailure]);
+  }, [effect, runtime, options?.timeout, options?.onSuccess, options?.onFailure]);
+
+  const start = useCallback(() => {
+    const fiber = fiberRef.current;
+    if (fiber && fiber.unsafePoll() === null) return;
+    run();
+  }, [run]);
 
   const interrupt = useCallback(() => {
-    if (fiberRef.current) {
-      Fiber.interrupt(fiberRef.current).pipe(
-        Effect.catchAll(() => Effect.void),
-        Effect.runPromise
-      );
-      setStatus('interrupted');
-      fiberRef.current = null;
+    const fiber = fiberRef.current;
+    if (fiber) {
+      Effect.runFork(Fiber.interrupt(fiber));
     }
   }, []);
 
+  const awaitExit = useCallback(() => {
+    const fiber = fiberRef.current;
+    return fiber ? Effect.runPromise(Fiber.await(fiber)) : Promise.resolve(null);
+  }, []);
+
+  const fiberStatus = useCallback(() => {
+    const fiber = fiberRef.current;
+    return fiber ? Effect.runPromise(Fiber.status(fiber)) : Promise.resolve(null);
+  }, []);
+
   useEffect(() => {
     if (options?.autoStart) {
       start();
     }
 
     return () => {
-      if (fiberRef.current) {
-        Fiber.interrupt(fiberRef.current).pipe(
-          Effect.catchAll(() => Effect.void),
-          Effect.runPromise
-        );
+      const fiber = fiberRef.current;
+      fiberRef.current = null;
+      if (fiber) {
+        Effect.runFork(Fiber.interrupt(fiber));
       }
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  return { start, interrupt, status, result, error };
+  return {
+    start,
+    restart: run,
+    interrupt,
+    await: awaitExit,
+    status: state.status,
+    result: state.result,
+    error: state.error,
+    timedOut: state.timedOut,
+    fiberId: state.fiberId,
+    fiberStatus,
+  };
 }
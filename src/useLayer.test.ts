@@ -390,4 +390,19 @@ describe('useLayer', () => {
       expect(result.current.error).toBe(null);
     });
   });
+
+  it('should expose defects while building as a result', async () => {
+    const layer = Layer.effect(
+      TestService,
+      Effect.die('construction failed')
+    );
+
+    const { result } = renderHook(() => useLayer(layer));
+
+    await waitFor(() => {
+      expect(result.current.result._tag).toBe('Defect');
+    });
+    expect(result.current.error).toBeNull();
+    expect(result.current.context).toBeNull();
+  });
 });
@@ -4,7 +4,7 @@ import * as Effect from 'effect/Effect';
 import * as Context from 'effect/Context';
 import * as Runtime from 'effect/Runtime';
 import * as Exit from 'effect/Exit';
-import * as Cause from 'effect/Cause';
+import { exitToResult, resultError, type EffectResult } from './useEffectResult';
 
 /**
  * React hook for building Effect Layers and accessing their Context
@@ -12,7 +12,7 @@ import * as Cause from 'effect/Cause';
  * @param layer - The Effect Layer to build
  * @param options - Optional configuration
  * @param options.runtime - Custom runtime for layer construction (required if RIn is not never)
- * @returns Object containing the built context, loading state, and error
+ * @returns Object containing the built context, loading state, error, and the result of the build
  */
 export function useLayer<R, E = never, RIn = never>(
   layer: Layer.Layer<R, E, RIn>,
@@ -23,15 +23,18 @@ export function useLayer<R, E = never, RIn = never>(
   context: Context.Context<R> | null;
   loading: boolean;
   error: E | null;
+  result: EffectResult<Context.Context<R>, E>;
 } {
   const [state, setState] = useState<{
     context: Context.Context<R> | null;
     loading: boolean;
     error: E | null;
+    result: EffectResult<Context.Context<R>, E>;
   }>({
     context: null,
     loading: true,
     error: null,
+    result: { _tag: 'Loading' },
   });
 
   useEffect(() => {
@@ -42,6 +45,7 @@ export function useLayer<R, E = never, RIn = never>(
       context: null,
       loading: true,
       error: null,
+      result: { _tag: 'Loading' },
     });
 
     // Build the layer - Layer.build returns a scoped Effect
@@ -58,24 +62,13 @@ export function useLayer<R, E = never, RIn = never>(
     runEffect(buildEffect).then((exit) => {
       if (cancelled) return;
 
-      if (Exit.isSuccess(exit)) {
-        // Success: set context
-        setState({
-          context: exit.value,
-          loading: false,
-          error: null,
-        });
-      } else {
-        // Failure: set error
-        const failure = Cause.failureOption(exit.cause);
-        const error = failure._tag === 'Some' ? failure.value : null;
-
-        setState({
-          context: null,
-          loading: false,
-          error,
-        });
-      }
+      const result = exitToResult(exit);
+      setState({
+        context: Exit.isSuccess(exit) ? exit.value : null,
+        loading: false,
+        error: resultError(result),
+        result,
+      });
     });
 
     return () => {
@@ -1,8 +1,9 @@
-import { describe, it, expect } from 'vitest';
-import { renderHook } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
 import { waitFor } from '@testing-library/dom';
 import { usePoll } from './usePoll';
 import * as Effect from 'effect/Effect';
+import * as Schedule from 'effect/Schedule';
 
 describe('usePoll', () => {
   it('should start with loading state', () => {
@@ -93,4 +94,190 @@ describe('usePoll', () => {
       expect(result.current.data).toBe(2);
     });
   });
+
+  it('should run finalizers of a running poll on unmount', async () => {
+    const released = vi.fn();
+    const effect = Effect.scoped(
+      Effect.acquireRelease(Effect.succeed('connection'), () =>
+        Effect.sync(released)
+      ).pipe(Effect.zipRight(Effect.never))
+    );
+
+    const { unmount } = renderHook(() => usePoll(effect, 1000));
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    unmount();
+
+    await waitFor(() => {
+      expect(released).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should interrupt running polls when dependencies change', async () => {
+    const interrupted = vi.fn();
+    const { result, rerender } = renderHook(
+      ({ id }) =>
+        usePoll(
+          id === 1
+            ? Effect.never.pipe(Effect.onInterrupt(() => Effect.sync(interrupted)))
+            : Effect.succeed(id),
+          1000,
+          [id]
+        ),
+      { initialProps: { id: 1 } }
+    );
+
+    rerender({ id: 2 });
+
+    await waitFor(() => {
+      expect(interrupted).toHaveBeenCalledTimes(1);
+      expect(result.current.data).toBe(2);
+    });
+  });
+
+  it('should expose defects as a result', async () => {
+    const { result } = renderHook(() => usePoll(Effect.die('boom'), 1000));
+
+    await waitFor(() => {
+      expect(result.current.result._tag).toBe('Defect');
+    });
+    expect(result.current.error).toBeNull();
+    expect(result.current.loading).toBe(false);
+  });
+
+  describe('schedules', () => {
+    const setVisibility = (visibilityState: 'visible' | 'hidden') => {
+      Object.defineProperty(document, 'visibilityState', {
+        value: visibilityState,
+        configurable: true,
+      });
+      document.dispatchEvent(new Event('visibilitychange'));
+    };
+
+    it('should stop polling when the schedule is done', async () => {
+      let counter = 0;
+      const { result } = renderHook(() =>
+        usePoll(
+          Effect.sync(() => ++counter),
+          Schedule.spaced('10 millis').pipe(Schedule.compose(Schedule.recurs(2)))
+        )
+      );
+
+      await waitFor(() => {
+        expect(result.current.polling).toBe(false);
+      });
+      expect(result.current.data).toBe(3);
+    });
+
+    it('should not overlap runs taking longer than the interval', async () => {
+      let running = 0;
+      let overlapped = false;
+      let runs = 0;
+      const effect = Effect.gen(function* () {
+        running++;
+        overlapped ||= running > 1;
+        yield* Effect.sleep('60 millis');
+        running--;
+        return ++runs;
+      });
+
+      const { result } = renderHook(() => usePoll(effect, '10 millis'));
+
+      await waitFor(() => {
+        expect(result.current.data).toBe(3);
+      });
+      expect(overlapped).toBe(false);
+    });
+
+    it('should pause, resume and refetch on demand', async () => {
+      let counter = 0;
+      const { result } = renderHook(() =>
+        usePoll(Effect.sync(() => ++counter), '1 minute')
+      );
+
+      await waitFor(() => {
+        expect(result.current.data).toBe(1);
+      });
+
+      act(() => {
+        result.current.pause();
+      });
+      expect(result.current.polling).toBe(false);
+
+      act(() => {
+        result.current.refetchNow();
+      });
+      await waitFor(() => {
+        expect(result.current.data).toBe(2);
+      });
+      expect(result.current.polling).toBe(false);
+
+      act(() => {
+        result.current.resume();
+      });
+      await waitFor(() => {
+        expect(result.current.data).toBe(3);
+      });
+      expect(result.current.polling).toBe(true);
+    });
+
+    it('should pause while the document is hidden', async () => {
+      let counter = 0;
+      const { result } = renderHook(() =>
+        usePoll(Effect.sync(() => ++counter), '20 millis')
+      );
+
+      await waitFor(() => {
+        expect(result.current.data).toBeGreaterThanOrEqual(1);
+      });
+
+      act(() => {
+        setVisibility('hidden');
+      });
+      expect(result.current.polling).toBe(false);
+
+      const hiddenCount = counter;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(counter).toBe(hiddenCount);
+
+      act(() => {
+        setVisibility('visible');
+      });
+      await waitFor(() => {
+        expect(counter).toBeGreaterThan(hiddenCount);
+      });
+      expect(result.current.polling).toBe(true);
+    });
+
+    it('should stop on failures with the stop error policy', async () => {
+      const effect = vi.fn(() => Effect.fail('unavailable'));
+      const { result } = renderHook(() =>
+        usePoll(Effect.suspend(effect), '10 millis', [], { errorPolicy: 'stop' })
+      );
+
+      await waitFor(() => {
+        expect(result.current.error).toBe('unavailable');
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(effect).toHaveBeenCalledTimes(1);
+      expect(result.current.polling).toBe(false);
+    });
+
+    it('should keep polling after failures but stop on defects with stopOnDefect', async () => {
+      let counter = 0;
+      const effect = Effect.suspend(() =>
+        ++counter < 3 ? Effect.fail(counter) : Effect.die('boom')
+      );
+      const { result } = renderHook(() =>
+        usePoll(effect, '10 millis', [], { errorPolicy: 'stopOnDefect' })
+      );
+
+      await waitFor(() => {
+        expect(result.current.result._tag).toBe('Defect');
+      });
+      expect(result.current.polling).toBe(false);
+      expect(counter).toBe(3);
+    });
+  });
 });
@@ -1,68 +1,255 @@
-import { useEffect as useReactEffect, useState } from 'react';
+import { useCallback, useEffect as useReactEffect, useRef, useState } from 'react';
 import * as Effect from 'effect/Effect';
+import * as Either from 'effect/Either';
 import * as Exit from 'effect/Exit';
-import * as Cause from 'effect/Cause';
+import * as Duration from 'effect/Duration';
+import * as Fiber from 'effect/Fiber';
+import * as Runtime from 'effect/Runtime';
+import * as Schedule from 'effect/Schedule';
+import { useRuntime, reportMissingServices } from './useRuntime';
+import { exitToResult, resultError, type EffectResult } from './useEffectResult';
 
 /**
- * Run an Effect repeatedly at a specified interval
+ * When usePoll stops polling after a run that did not succeed
  *
- * @param effect - The Effect to run
- * @param intervalMs - Interval in milliseconds
- * @param deps - Dependencies array
- * @returns Object containing loading state, data, and error
+ * - `continue`: keep polling
+ * - `stop`: stop after a failure, a defect or an interruption
+ * - `stopOnDefect`: keep polling after expected failures, stop after a defect
+ */
+export type PollErrorPolicy = 'continue' | 'stop' | 'stopOnDefect';
+
+/**
+ * Options for usePoll
+ */
+export interface PollOptions {
+  pauseWhenHidden?: boolean;
+  errorPolicy?: PollErrorPolicy;
+}
+
+/**
+ * Returned by usePoll
+ *
+ * `polling` is true while runs are scheduled; it is false when polling is
+ * paused, stopped by the error policy, or the schedule is done.
  */
-export function usePoll<A, E>(
-  effect: Effect.Effect<A, E>,
-  intervalMs: number,
-  deps: React.DependencyList = []
-): {
+export interface Poll<A, E> {
+  data: A | null;
+  error: E | null;
+  result: EffectResult<A, E>;
+  loading: boolean;
+  polling: boolean;
+  /**
+   * Stop polling, interrupting the running effect
+   */
+  pause: () => void;
+  /**
+   * Restart polling, running the effect right away
+   */
+  resume: () => void;
+  /**
+   * Run the effect right away; while polling, the schedule restarts after it
+   */
+  refetchNow: () => void;
+}
+
+interface PollState<A, E> {
   data: A | null;
   error: E | null;
+  result: EffectResult<A, E>;
   loading: boolean;
-} {
-  const [state, setState] = useState<{
-    data: A | null;
-    error: E | null;
-    loading: boolean;
-  }>({
+  polling: boolean;
+}
+
+const shouldStop = (
+  policy: PollErrorPolicy,
+  result: EffectResult<unknown, unknown>
+): boolean => {
+  switch (policy) {
+    case 'stop':
+      return result._tag !== 'Success';
+    case 'stopOnDefect':
+      return result._tag === 'Defect';
+    case 'continue':
+      return false;
+  }
+};
+
+/**
+ * Run an Effect repeatedly on a Schedule, on the runtime of the nearest provider
+ *
+ * The effect runs right away, then each time the schedule recurs after the
+ * previous run completed, so runs never overlap. A duration polls at a fixed
+ * rate; any Schedule (spaced, exponential, jittered, cron...) can be given
+ * instead, and polling stops when it is done.
+ *
+ * Polling pauses while the document is hidden and resumes with a run when it
+ * is visible again, unless `pauseWhenHidden` is false. `errorPolicy` decides
+ * whether polling stops after a run that did not succeed (`continue` by
+ * default); `resume` restarts it.
+ *
+ * Runs still in progress are interrupted when the component unmounts, the
+ * deps change or polling pauses, so their finalizers run.
+ *
+ * @param effect - The Effect to run
+ * @param schedule - Interval between runs, or the Schedule of the runs
+ * @param deps - Dependencies array
+ * @param options - Visibility and error policy
+ * @returns Object containing loading state, data, error, the result of the latest run, and controls
+ */
+export function usePoll<A, E, R = never>(
+  effect: Effect.Effect<A, E, R>,
+  schedule: Duration.DurationInput | Schedule.Schedule<unknown, unknown>,
+  deps: React.DependencyList = [],
+  options?: PollOptions
+): Poll<A, E> {
+  const runtime = useRuntime<R>();
+  const [state, setState] = useState<PollState<A, E>>({
     data: null,
     error: null,
+    result: { _tag: 'Loading' },
     loading: true,
+    polling: true,
   });
 
-  useReactEffect(() => {
-    let cancelled = false;
-
-    const runEffect = () => {
-      if (cancelled) return;
-
-      Effect.runPromiseExit(effect).then((exit) => {
-        if (cancelled) return;
-
-        if (Exit.isSuccess(exit)) {
-          setState({ data: exit.value, error: null, loading: false });
-        } else {
-          const failure = Cause.failureOption(exit.cause);
-          setState({
-            data: null,
-            error: failure._tag === 'Some' ? failure.value : null,
-            loading: false
+  const pauseWhenHidden = options?.pauseWhenHidden ?? true;
+
+  // Latest inputs, read when polling (re)starts
+  const latest = useRef({ effect, schedule, runtime, options });
+  latest.current = { effect, schedule, runtime, options };
+
+  const fiberRef = useRef<Fiber.RuntimeFiber<void> | null>(null);
+  const generationRef = useRef(0);
+  const pausedRef = useRef(false);
+
+  const isHidden = useCallback(
+    () => pauseWhenHidden && document.visibilityState === 'hidden',
+    [pauseWhenHidden]
+  );
+
+  // Interrupt the polling fiber, so that the finalizers of its run execute
+  const stop = useCallback(() => {
+    generationRef.current++;
+    const fiber = fiberRef.current;
+    if (fiber) {
+      fiberRef.current = null;
+      Effect.runFork(Fiber.interrupt(fiber));
+    }
+  }, []);
+
+  // Run the effect, then keep running it on the schedule unless `once`
+  const start = useCallback(
+    (once: boolean) => {
+      stop();
+      const generation = ++generationRef.current;
+      const { effect, schedule, runtime, options } = latest.current;
+      const errorPolicy = options?.errorPolicy ?? 'continue';
+
+      // Results are delivered asynchronously, like the promise of a run, and
+      // dropped once polling restarted or stopped
+      const report = (update: (_prev: PollState<A, E>) => PollState<A, E>) =>
+        Effect.sync(() => {
+          Promise.resolve().then(() => {
+            if (generationRef.current === generation) {
+              setState(update);
+            }
           });
+        });
+
+      const poll = Effect.gen(function* () {
+        const driver = yield* Schedule.driver(
+          Schedule.isSchedule(schedule) ? schedule : Schedule.fixed(schedule)
+        );
+
+        while (true) {
+          const exit = yield* Effect.exit(reportMissingServices(effect));
+          const result = exitToResult(exit);
+          const stopped = once || shouldStop(errorPolicy, result);
+
+          if (stopped && !once && generationRef.current === generation) {
+            pausedRef.current = true;
+          }
+          yield* report(() => ({
+            data: Exit.isSuccess(exit) ? exit.value : null,
+            error: resultError(result),
+            result,
+            loading: false,
+            polling: !stopped,
+          }));
+          if (stopped) return;
+
+          // Wait for the next recurrence; a finished schedule stops polling
+          const next = yield* Effect.either(driver.next(undefined));
+          if (Either.isLeft(next)) {
+            if (generationRef.current === generation) {
+              pausedRef.current = true;
+            }
+            yield* report((prev) => ({ ...prev, polling: false }));
+            return;
+          }
         }
       });
-    };
 
-    // Run immediately
-    runEffect();
+      fiberRef.current = Runtime.runFork(runtime)(poll);
+      setState((prev) => (prev.polling === !once ? prev : { ...prev, polling: !once }));
+    },
+    [stop]
+  );
+
+  useReactEffect(() => {
+    if (!pausedRef.current && !isHidden()) {
+      start(false);
+    } else {
+      setState((prev) => (prev.polling ? { ...prev, polling: false } : prev));
+    }
+
+    return stop;
+  }, [...deps, runtime]);
+
+  // Pause while the document is hidden
+  useReactEffect(() => {
+    if (!pauseWhenHidden) return;
+
+    const onVisibilityChange = () => {
+      if (pausedRef.current) return;
 
-    // Then run on interval
-    const interval = setInterval(runEffect, intervalMs);
+      if (isHidden()) {
+        stop();
+        setState((prev) => ({ ...prev, polling: false }));
+      } else {
+        start(false);
+      }
+    };
 
+    document.addEventListener('visibilitychange', onVisibilityChange);
     return () => {
-      cancelled = true;
-      clearInterval(interval);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
     };
-  }, deps);
+  }, [pauseWhenHidden, isHidden, start, stop]);
+
+  const pause = useCallback(() => {
+    pausedRef.current = true;
+    stop();
+    setState((prev) => ({ ...prev, polling: false }));
+  }, [stop]);
+
+  const resume = useCallback(() => {
+    pausedRef.current = false;
+    if (isHidden()) return;
+    start(false);
+  }, [isHidden, start]);
+
+  const refetchNow = useCallback(() => {
+    start(pausedRef.current || isHidden());
+  }, [isHidden, start]);
 
-  return state;
+  return {
+    data: state.data,
+    error: state.error,
+    result: state.result,
+    loading: state.loading,
+    polling: state.polling,
+    pause,
+    resume,
+    refetchNow,
+  };
 }
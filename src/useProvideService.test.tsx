@@ -2,8 +2,10 @@ import { describe, it, expect, afterEach } from 'vitest';
 import { render, cleanup, screen, waitFor } from '@testing-library/react';
 import { ProvideService } from './useProvideService';
 import { useService } from './useService';
+import { useEffectQuery } from './useEffectQuery';
 import * as Context from 'effect/Context';
 import * as Effect from 'effect/Effect';
+import * as Option from 'effect/Option';
 import React, { useState, useMemo } from 'react';
 
 // Define test services
@@ -285,4 +287,35 @@ describe('ProvideService', () => {
     expect(screen.getByText('children')).toBeInTheDocument();
     expect(screen.queryByText('fallback')).not.toBeInTheDocument();
   });
+
+  it('should make the service available to effects run by hooks', async () => {
+    const config = {
+      apiUrl: 'https://effect.example.com',
+      timeout: 1000,
+    };
+
+    function TestComponent() {
+      const { data } = useEffectQuery(
+        Effect.map(Effect.serviceOption(ConfigService), (service) =>
+          Option.match(service, {
+            onNone: () => 'missing',
+            onSome: (value) => value.apiUrl,
+          })
+        )
+      );
+      return <div>effect:{data}</div>;
+    }
+
+    render(
+      <ProvideService tag={ConfigService} service={config}>
+        <TestComponent />
+      </ProvideService>
+    );
+
+    await waitFor(() => {
+      expect(
+        screen.getByText('effect:https://effect.example.com')
+      ).toBeInTheDocument();
+    });
+  });
 });
@@ -1,27 +1,6 @@
-import React, { createContext, ReactNode, ReactElement } from 'react';
+import React, { useContext, useMemo, ReactNode, ReactElement } from 'react';
 import * as Context from 'effect/Context';
-
-// WeakMap to store React Context for each service tag
-const ServiceContextMap = new WeakMap<
-  Context.Tag<any, any>,
-  React.Context<any>
->();
-
-/**
- * Gets or creates a React Context for a given service tag.
- * Uses WeakMap to ensure each tag gets its own Context instance.
- */
-function getOrCreateServiceContext<I, S>(
-  tag: Context.Tag<I, S>
-): React.Context<S | null> {
-  if (ServiceContextMap.has(tag)) {
-    return ServiceContextMap.get(tag)!;
-  }
-
-  const context = createContext<S | null>(null);
-  ServiceContextMap.set(tag, context);
-  return context;
-}
+import { EffectRuntimeContext, makeRuntime } from './useRuntime';
 
 export interface ProvideServiceProps<I, S> {
   tag: Context.Tag<I, S>;
@@ -33,6 +12,8 @@ export interface ProvideServiceProps<I, S> {
 /**
  * ProvideService component provides a single Effect service to its children.
  * This is a simpler alternative to EffectProvider when you don't need Layer composition.
+ * The service is added to the runtime of the nearest provider, so it is visible
+ * to `useService` as well as to effects run by the effect-running hooks.
  *
  * @example
  * ```tsx
@@ -51,7 +32,13 @@ export function ProvideService<I, S>({
   children,
   fallback,
 }: ProvideServiceProps<I, S>): ReactElement {
-  const ServiceContext = getOrCreateServiceContext(tag);
+  const parentRuntime = useContext(EffectRuntimeContext);
+
+  const runtime = useMemo(
+    () =>
+      service ? makeRuntime(Context.make(tag, service), parentRuntime) : parentRuntime,
+    [tag, service, parentRuntime]
+  );
 
   // If service is null/undefined and fallback is provided, show fallback
   if (!service && fallback) {
@@ -59,11 +46,8 @@ export function ProvideService<I, S>({
   }
 
   return (
-    <ServiceContext.Provider value={service}>
+    <EffectRuntimeContext.Provider value={runtime}>
       {children}
-    </ServiceContext.Provider>
+    </EffectRuntimeContext.Provider>
   );
 }
-
-// Export the helper function for use in useService hook
-export { getOrCreateServiceContext };
@@ -0,0 +1,284 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { render, renderHook, cleanup, screen, waitFor } from '@testing-library/react';
+import {
+  makeQueryClient,
+  QueryClientProvider,
+  useQueryClient,
+  type QueryClient,
+} from './useQueryClient';
+import { useEffectQuery } from './useEffectQuery';
+import * as Effect from 'effect/Effect';
+import * as Runtime from 'effect/Runtime';
+import * as Duration from 'effect/Duration';
+import React from 'react';
+
+function User({
+  id,
+  effect,
+  staleTime,
+}: {
+  id: string;
+  effect: Effect.Effect<string>;
+  staleTime?: Duration.DurationInput;
+}) {
+  const { data, loading } = useEffectQuery(effect, [], {
+    key: ['user', id],
+    staleTime,
+  });
+  return <div>{loading ? 'loading' : `user:${data}`}</div>;
+}
+
+function renderWithClient(client: QueryClient, children: React.ReactNode) {
+  return render(<QueryClientProvider client={client}>{children}</QueryClientProvider>);
+}
+
+describe('useQueryClient', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('should run a keyed effect once for every component using the key', async () => {
+    const client = makeQueryClient();
+    const load = vi.fn(() => 'Alice');
+    const effect = Effect.delay(Effect.sync(load), '10 millis');
+
+    renderWithClient(
+      client,
+      Array.from({ length: 10 }, (_, i) => <User key={i} id="1" effect={effect} />)
+    );
+
+    await waitFor(() => {
+      expect(screen.getAllByText('user:Alice')).toHaveLength(10);
+    });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run different keys independently', async () => {
+    const client = makeQueryClient();
+    const load = vi.fn((id: string) => `user-${id}`);
+
+    function KeyedUser({ id }: { id: string }) {
+      const { data } = useEffectQuery(Effect.sync(() => load(id)), [], {
+        key: ['user', id],
+      });
+      return <div>{data}</div>;
+    }
+
+    renderWithClient(
+      client,
+      <>
+        <KeyedUser id="1" />
+        <KeyedUser id="2" />
+      </>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('user-1')).toBeInTheDocument();
+      expect(screen.getByText('user-2')).toBeInTheDocument();
+    });
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share cached results with components mounted later', async () => {
+    const client = makeQueryClient();
+    const load = vi.fn(() => 'Alice');
+    const effect = Effect.sync(load);
+
+    const { rerender } = renderWithClient(
+      client,
+      <User id="1" effect={effect} staleTime="1 minute" />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('user:Alice')).toBeInTheDocument();
+    });
+
+    rerender(
+      <QueryClientProvider client={client}>
+        <User id="1" effect={effect} staleTime="1 minute" />
+        <User id="1" effect={effect} staleTime="1 minute" />
+      </QueryClientProvider>
+    );
+
+    expect(screen.getAllByText('user:Alice')).toHaveLength(2);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the fiber running while a subscriber remains', async () => {
+    const client = makeQueryClient();
+    const interrupted = vi.fn();
+    const effect = Effect.delay(Effect.succeed('Alice'), '50 millis').pipe(
+      Effect.onInterrupt(() => Effect.sync(interrupted))
+    );
+
+    const { rerender } = renderWithClient(
+      client,
+      <>
+        <User id="1" effect={effect} />
+        <User id="1" effect={effect} />
+      </>
+    );
+
+    rerender(
+      <QueryClientProvider client={client}>
+        <User id="1" effect={effect} />
+      </QueryClientProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('user:Alice')).toBeInTheDocument();
+    });
+    expect(interrupted).not.toHaveBeenCalled();
+  });
+
+  it('should interrupt the fiber when the last subscriber unmounts', async () => {
+    const client = makeQueryClient();
+    const interrupted = vi.fn();
+    const effect = Effect.delay(Effect.succeed('Alice'), '1 second').pipe(
+      Effect.onInterrupt(() => Effect.sync(interrupted))
+    );
+
+    const { unmount } = renderWithClient(
+      client,
+      <>
+        <User id="1" effect={effect} />
+        <User id="1" effect={effect} />
+      </>
+    );
+
+    unmount();
+
+    await waitFor(() => {
+      expect(interrupted).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should run an interrupted query again when it is subscribed to again', async () => {
+    const client = makeQueryClient();
+    let runs = 0;
+    const effect = Effect.suspend(() => {
+      runs++;
+      return Effect.delay(Effect.succeed(`run-${runs}`), '20 millis');
+    });
+
+    const first = renderWithClient(client, <User id="1" effect={effect} />);
+    first.unmount();
+
+    renderWithClient(client, <User id="1" effect={effect} />);
+
+    await waitFor(() => {
+      expect(screen.getByText('user:run-2')).toBeInTheDocument();
+    });
+  });
+
+  it('should share failures with every subscriber', async () => {
+    const client = makeQueryClient();
+
+    function Failing() {
+      const { error, loading } = useEffectQuery(Effect.fail('not found'), [], {
+        key: 'failing',
+      });
+      return <div>{loading ? 'loading' : `error:${error}`}</div>;
+    }
+
+    renderWithClient(
+      client,
+      <>
+        <Failing />
+        <Failing />
+      </>
+    );
+
+    await waitFor(() => {
+      expect(screen.getAllByText('error:not found')).toHaveLength(2);
+    });
+  });
+
+  it('should deduplicate fetchQuery calls while the query is running', async () => {
+    const client = makeQueryClient();
+    const load = vi.fn(() => 1);
+    const effect = Effect.delay(Effect.sync(load), '10 millis');
+
+    const unsubscribe = client.subscribe('count', () => {});
+    client.fetchQuery('count', effect, Runtime.defaultRuntime);
+    client.fetchQuery('count', effect, Runtime.defaultRuntime);
+
+    await waitFor(() => {
+      expect(client.getState('count').loading).toBe(false);
+    });
+    expect(client.getState('count').data).toBe(1);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+  });
+
+  it('should refetch invalidated queries without subscribers when next used', async () => {
+    const client = makeQueryClient();
+    const load = vi.fn(() => 1);
+    const effect = Effect.sync(load);
+
+    client.fetchQuery(['count', 'a'], effect, Runtime.defaultRuntime);
+    client.fetchQuery(['other'], effect, Runtime.defaultRuntime);
+    client.invalidateQueries(['count']);
+
+    expect(load).toHaveBeenCalledTimes(2);
+
+    client.ensureQuery(['count', 'a'], effect, Runtime.defaultRuntime, {
+      staleTime: '1 minute',
+    });
+    client.ensureQuery(['other'], effect, Runtime.defaultRuntime, {
+      staleTime: '1 minute',
+    });
+
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it('should set a successful result along with the data', () => {
+    const client = makeQueryClient();
+
+    client.fetchQuery('count', Effect.fail('offline'), Runtime.defaultRuntime);
+    client.setQueryData<number>('count', () => 1);
+
+    expect(client.getState('count')).toEqual({
+      data: 1,
+      error: null,
+      result: { _tag: 'Success', value: 1 },
+      loading: false,
+      isFetching: false,
+      timedOut: false,
+    });
+  });
+
+  it('should keep a query without data loading when setting null', () => {
+    const client = makeQueryClient();
+
+    client.setQueryData<number>('count', () => null);
+
+    expect(client.getState('count').loading).toBe(true);
+    expect(client.getState('count').result._tag).toBe('Loading');
+  });
+
+  it('should throw without a QueryClientProvider', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => renderHook(() => useQueryClient())).toThrow(
+      'useQueryClient must be used within a QueryClientProvider'
+    );
+    expect(() =>
+      renderHook(() => useEffectQuery(Effect.succeed(1), [], { key: 'one' }))
+    ).toThrow('useEffectQuery requires a QueryClientProvider when a key is given');
+
+    consoleError.mockRestore();
+  });
+
+  it('should return the provided client', () => {
+    const client = makeQueryClient();
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <QueryClientProvider client={client}>{children}</QueryClientProvider>
+    );
+
+    const { result } = renderHook(() => useQueryClient(), { wrapper });
+
+    expect(result.current).toBe(client);
+  });
+});
@@ -0,0 +1,413 @@
+import React, { createContext, useContext, ReactNode, ReactElement } from 'react';
+import * as Duration from 'effect/Duration';
+import * as Effect from 'effect/Effect';
+import * as Exit from 'effect/Exit';
+import * as Fiber from 'effect/Fiber';
+import * as Runtime from 'effect/Runtime';
+import { reportMissingServices } from './useRuntime';
+import { exitToResult, isTimedOut, resultError, type EffectResult } from './useEffectResult';
+
+/**
+ * Serializable key identifying a query; arrays are serialized with JSON.stringify
+ */
+export type QueryKey = string | ReadonlyArray<unknown>;
+
+/**
+ * State of a cached query, shared by every subscriber of its key
+ *
+ * `loading` is true until the query has a first result; `isFetching` is true
+ * whenever the query is running, including background refetches that keep
+ * the previous data and error visible. `result` is the outcome of the latest
+ * run, carrying its Cause when it failed, died or was interrupted, and
+ * `timedOut` is true when it failed with a TimeoutException.
+ */
+export interface QueryState<A, E> {
+  data: A | null;
+  error: E | null;
+  result: EffectResult<A, E>;
+  loading: boolean;
+  isFetching: boolean;
+  timedOut: boolean;
+}
+
+/**
+ * Cache of query results keyed by QueryKey
+ */
+export interface QueryClient {
+  /**
+   * Get the current state of a query
+   */
+  getState: <A, E>(_key: QueryKey) => QueryState<A, E>;
+  /**
+   * Register a subscriber of a query; the running fiber of the query is
+   * interrupted when its last subscriber unsubscribes
+   */
+  subscribe: (_key: QueryKey, _listener: () => void) => () => void;
+  /**
+   * Run a query, unless it is already running
+   */
+  fetchQuery: <A, E, R>(
+    _key: QueryKey,
+    _effect: Effect.Effect<A, E, R>,
+    _runtime: Runtime.Runtime<R>
+  ) => void;
+  /**
+   * Run a query if it has no result yet, or its result is older than
+   * `staleTime` (0 by default), and it is not already running
+   */
+  ensureQuery: <A, E, R>(
+    _key: QueryKey,
+    _effect: Effect.Effect<A, E, R>,
+    _runtime: Runtime.Runtime<R>,
+    _options?: { staleTime?: Duration.DurationInput }
+  ) => void;
+  /**
+   * Run a query that has no result yet, unless it is already running, and
+   * resolve once it has one; Suspense throws the returned promise
+   */
+  suspendQuery: <A, E, R>(
+    _key: QueryKey,
+    _effect: Effect.Effect<A, E, R>,
+    _runtime: Runtime.Runtime<R>
+  ) => Promise<void>;
+  /**
+   * Replace the data of a query, notifying its subscribers
+   */
+  setQueryData: <A>(_key: QueryKey, _update: (_data: A | null) => A | null) => void;
+  /**
+   * Capture the state of a query, to put it back with restoreQuery
+   */
+  snapshotQuery: (_key: QueryKey) => QuerySnapshot;
+  /**
+   * Put back the state and age of a query captured by snapshotQuery,
+   * notifying its subscribers; a fetch running now is kept
+   */
+  restoreQuery: (_snapshot: QuerySnapshot) => void;
+  /**
+   * Interrupt a running query, keeping its current data
+   */
+  cancelQuery: (_key: QueryKey) => void;
+  /**
+   * Mark every query matching the key as stale; queries that have
+   * subscribers are refetched right away, the others when next used.
+   * An array key also matches every key it is a prefix of.
+   */
+  invalidateQueries: (_key: QueryKey) => void;
+  /**
+   * Drop the results of every query matching the key, interrupting them, so
+   * that they load again; queries that have subscribers are refetched right
+   * away
+   */
+  resetQueries: (_key: QueryKey) => void;
+  /**
+   * Interrupt every running query and drop all cached results
+   */
+  clear: () => void;
+}
+
+/**
+ * A change to the data of a keyed query
+ */
+export interface QueryUpdate<A = unknown> {
+  readonly key: QueryKey;
+  // A method, so that updates of any data type fit a list of QueryUpdates
+  update(_data: A | null): A | null;
+}
+
+/**
+ * State of a query captured by QueryClient.snapshotQuery
+ */
+export interface QuerySnapshot {
+  readonly key: QueryKey;
+  readonly state: QueryState<unknown, unknown>;
+  readonly updatedAt: number | null;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState<unknown, unknown>;
+  updatedAt: number | null;
+  // Runs the effect of the query on its runtime again, for invalidation
+  query: (() => Fiber.RuntimeFiber<unknown, unknown>) | null;
+  fiber: Fiber.RuntimeFiber<unknown, unknown> | null;
+  listeners: Set<() => void>;
+}
+
+const initialState: QueryState<never, never> = {
+  data: null,
+  error: null,
+  result: { _tag: 'Loading' },
+  loading: true,
+  isFetching: false,
+  timedOut: false,
+};
+
+/**
+ * Serialize a QueryKey into the string used to look up its entry
+ */
+export function hashQueryKey(key: QueryKey): string {
+  return typeof key === 'string' ? key : JSON.stringify(key);
+}
+
+/**
+ * Whether a key matches a filter key: equal keys match, and an array filter
+ * also matches longer array keys starting with the same elements
+ */
+function matchesQueryKey(key: QueryKey, filter: QueryKey): boolean {
+  if (typeof key === 'string' || typeof filter === 'string') {
+    return hashQueryKey(key) === hashQueryKey(filter);
+  }
+
+  return (
+    filter.length <= key.length &&
+    filter.every((part, i) => hashQueryKey([part]) === hashQueryKey([key[i]]))
+  );
+}
+
+/**
+ * Create a QueryClient
+ *
+ * Queries with the same key share a single entry: a query that is already
+ * running is not started again, and its result is delivered to every
+ * subscriber.
+ *
+ * @returns A new, empty QueryClient
+ */
+export function makeQueryClient(): QueryClient {
+  const entries = new Map<string, QueryEntry>();
+
+  const getEntry = (key: QueryKey): QueryEntry => {
+    const hash = hashQueryKey(key);
+    let entry = entries.get(hash);
+    if (!entry) {
+      entry = {
+        key,
+        state: initialState,
+        updatedAt: null,
+        query: null,
+        fiber: null,
+        listeners: new Set(),
+      };
+      entries.set(hash, entry);
+    }
+    return entry;
+  };
+
+  const setState = (entry: QueryEntry, state: QueryState<unknown, unknown>) => {
+    entry.state = state;
+    entry.listeners.forEach((listener) => listener());
+  };
+
+  const interrupt = (entry: QueryEntry) => {
+    const fiber = entry.fiber;
+    if (fiber) {
+      entry.fiber = null;
+      entry.state = { ...entry.state, isFetching: false };
+      Effect.runFork(Fiber.interrupt(fiber));
+    }
+  };
+
+  const startQuery = (entry: QueryEntry, query: () => Fiber.RuntimeFiber<unknown, unknown>) => {
+    // Deduplicate: subscribers share the fiber already running
+    if (entry.fiber) return;
+
+    // Remember how to run the query, for invalidation
+    entry.query = query;
+
+    // Keep the previous result visible while refetching
+    setState(entry, { ...entry.state, isFetching: true });
+
+    const fiber = query();
+    entry.fiber = fiber;
+
+    fiber.addObserver((exit) => {
+      // Ignore fibers interrupted or replaced by the client in the meantime;
+      // an effect interrupting itself still settles the query
+      if (entry.fiber !== fiber) return;
+      entry.fiber = null;
+
+      const result = exitToResult(exit);
+      entry.updatedAt = Date.now();
+      setState(entry, {
+        data: Exit.isSuccess(exit) ? exit.value : entry.state.data,
+        error: resultError(result),
+        result,
+        loading: false,
+        isFetching: false,
+        timedOut: isTimedOut(result),
+      });
+    });
+  };
+
+  const fetchQuery = <A, E, R>(
+    key: QueryKey,
+    effect: Effect.Effect<A, E, R>,
+    runtime: Runtime.Runtime<R>
+  ) => startQuery(getEntry(key), () => Runtime.runFork(runtime)(reportMissingServices(effect)));
+
+  return {
+    getState: <A, E>(key: QueryKey) =>
+      (entries.get(hashQueryKey(key))?.state ?? initialState) as QueryState<A, E>,
+
+    subscribe: (key, listener) => {
+      const entry = getEntry(key);
+      entry.listeners.add(listener);
+
+      return () => {
+        entry.listeners.delete(listener);
+        if (entry.listeners.size === 0) {
+          interrupt(entry);
+        }
+      };
+    },
+
+    fetchQuery,
+
+    ensureQuery: (key, effect, runtime, options) => {
+      const entry = getEntry(key);
+      const staleTime = Duration.toMillis(options?.staleTime ?? 0);
+
+      if (entry.updatedAt === null || Date.now() - entry.updatedAt > staleTime) {
+        fetchQuery(key, effect, runtime);
+      }
+    },
+
+    suspendQuery: (key, effect, runtime) => {
+      const entry = getEntry(key);
+
+      return new Promise<void>((resolve) => {
+        // Keeps the query running while the suspended components wait for
+        // it; a cancelled query settles too, and is fetched again on render
+        const listener = () => {
+          if (!entry.state.loading || entry.fiber === null) {
+            entry.listeners.delete(listener);
+            resolve();
+          }
+        };
+        entry.listeners.add(listener);
+
+        fetchQuery(key, effect, runtime);
+        listener();
+      });
+    },
+
+    setQueryData: <A,>(key: QueryKey, update: (_data: A | null) => A | null) => {
+      const entry = getEntry(key);
+      const data = update(entry.state.data as A | null);
+
+      // Without data there is no result to show; the loading state and the
+      // result of the last run are left as they are
+      if (data === null) {
+        setState(entry, { ...entry.state, data });
+        return;
+      }
+
+      entry.updatedAt = Date.now();
+      setState(entry, {
+        data,
+        error: null,
+        result: { _tag: 'Success', value: data },
+        loading: false,
+        isFetching: entry.state.isFetching,
+        timedOut: false,
+      });
+    },
+
+    snapshotQuery: (key) => {
+      const entry = getEntry(key);
+      return { key, state: entry.state, updatedAt: entry.updatedAt };
+    },
+
+    restoreQuery: ({ key, state, updatedAt }) => {
+      const entry = getEntry(key);
+      entry.updatedAt = updatedAt;
+      setState(entry, { ...state, isFetching: entry.fiber !== null });
+    },
+
+    cancelQuery: (key) => {
+      const entry = entries.get(hashQueryKey(key));
+      if (entry?.fiber) {
+        interrupt(entry);
+        setState(entry, entry.state);
+      }
+    },
+
+    invalidateQueries: (filter) => {
+      entries.forEach((entry) => {
+        if (!matchesQueryKey(entry.key, filter)) return;
+
+        entry.updatedAt = null;
+
+        if (entry.listeners.size > 0 && entry.query) {
+          // Replace a fetch that may already be outdated
+          interrupt(entry);
+          startQuery(entry, entry.query);
+        }
+      });
+    },
+
+    resetQueries: (filter) => {
+      entries.forEach((entry) => {
+        if (!matchesQueryKey(entry.key, filter)) return;
+
+        interrupt(entry);
+        entry.updatedAt = null;
+        setState(entry, initialState);
+
+        if (entry.listeners.size > 0 && entry.query) {
+          startQuery(entry, entry.query);
+        }
+      });
+    },
+
+    clear: () => {
+      entries.forEach(interrupt);
+      entries.clear();
+    },
+  };
+}
+
+const QueryClientContext = createContext<QueryClient | null>(null);
+
+// Export for use in other hooks
+export { QueryClientContext };
+
+/**
+ * Provide a QueryClient to the component tree
+ *
+ * Keyed queries (`useEffectQuery` with a `key`) below the provider share their
+ * results through this client.
+ *
+ * @param client - The QueryClient to provide
+ * @param children - React children to render
+ * @returns ReactElement
+ */
+export function QueryClientProvider({
+  client,
+  children,
+}: {
+  client: QueryClient;
+  children: ReactNode;
+}): ReactElement {
+  return (
+    <QueryClientContext.Provider value={client}>
+      {children}
+    </QueryClientContext.Provider>
+  );
+}
+
+/**
+ * Hook to access the QueryClient of the nearest QueryClientProvider
+ *
+ * @returns The current QueryClient
+ * @throws Error if there is no QueryClientProvider above the component
+ */
+export function useQueryClient(): QueryClient {
+  const client = useContext(QueryClientContext);
+
+  if (!client) {
+    throw new Error('useQueryClient must be used within a QueryClientProvider');
+  }
+
+  return client;
+}
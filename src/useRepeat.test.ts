@@ -0,0 +1,159 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { waitFor } from '@testing-library/dom';
+import { useRepeat } from './useRepeat';
+import * as Effect from 'effect/Effect';
+import * as Schedule from 'effect/Schedule';
+
+describe('useRepeat', () => {
+  it('should start with loading state', () => {
+    const { result } = renderHook(() => useRepeat(Effect.succeed(42), '1 minute'));
+
+    expect(result.current.loading).toBe(true);
+    expect(result.current.running).toBe(true);
+    expect(result.current.data).toBe(null);
+    expect(result.current.iterations).toBe(0);
+  });
+
+  it('should show the value of each iteration', async () => {
+    let counter = 0;
+    const { result } = renderHook(() =>
+      useRepeat(Effect.sync(() => ++counter), '100 millis')
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe(1);
+    });
+    expect(result.current.result).toEqual({ _tag: 'Success', value: 1 });
+
+    await waitFor(
+      () => {
+        expect(result.current.data).toBeGreaterThanOrEqual(3);
+      },
+      { timeout: 1000 }
+    );
+    expect(result.current.iterations).toBe(result.current.data);
+  });
+
+  it('should stop when the schedule is done', async () => {
+    let counter = 0;
+    const { result } = renderHook(() =>
+      useRepeat(Effect.sync(() => ++counter), Schedule.recurs(2))
+    );
+
+    await waitFor(() => {
+      expect(result.current.running).toBe(false);
+    });
+    expect(result.current.data).toBe(3);
+    expect(result.current.iterations).toBe(3);
+    expect(result.current.result._tag).toBe('Success');
+  });
+
+  it('should stop on the until predicate', async () => {
+    let counter = 0;
+    const { result } = renderHook(() =>
+      useRepeat(Effect.sync(() => ++counter), '10 millis', [], {
+        until: (n) => n === 4,
+      })
+    );
+
+    await waitFor(() => {
+      expect(result.current.running).toBe(false);
+    });
+    expect(result.current.data).toBe(4);
+    expect(counter).toBe(4);
+  });
+
+  it('should stop on the while predicate', async () => {
+    let counter = 0;
+    const { result } = renderHook(() =>
+      useRepeat(Effect.sync(() => ++counter), '10 millis', [], {
+        while: (n) => n < 2,
+      })
+    );
+
+    await waitFor(() => {
+      expect(result.current.running).toBe(false);
+    });
+    expect(result.current.data).toBe(2);
+  });
+
+  it('should stop on failure and keep the last value', async () => {
+    let counter = 0;
+    const effect = Effect.suspend(() =>
+      ++counter === 3 ? Effect.fail('boom') : Effect.succeed(counter)
+    );
+    const { result } = renderHook(() => useRepeat(effect, '10 millis'));
+
+    await waitFor(() => {
+      expect(result.current.running).toBe(false);
+    });
+    expect(result.current.data).toBe(2);
+    expect(result.current.error).toBe('boom');
+    expect(result.current.result._tag).toBe('Failure');
+    expect(counter).toBe(3);
+  });
+
+  it('should stop and restart manually', async () => {
+    let counter = 0;
+    const { result } = renderHook(() =>
+      useRepeat(Effect.sync(() => ++counter), '1 minute')
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe(1);
+    });
+
+    act(() => {
+      result.current.stop();
+    });
+    expect(result.current.running).toBe(false);
+    expect(result.current.data).toBe(1);
+
+    act(() => {
+      result.current.restart();
+    });
+    expect(result.current.running).toBe(true);
+
+    await waitFor(() => {
+      expect(result.current.data).toBe(2);
+    });
+    expect(result.current.iterations).toBe(1);
+  });
+
+  it('should interrupt the running iteration on unmount', async () => {
+    let interrupted = false;
+    const effect = Effect.never.pipe(
+      Effect.onInterrupt(() =>
+        Effect.sync(() => {
+          interrupted = true;
+        })
+      )
+    );
+    const { unmount } = renderHook(() => useRepeat(effect, '10 millis'));
+
+    unmount();
+
+    await waitFor(() => {
+      expect(interrupted).toBe(true);
+    });
+  });
+
+  it('should restart when deps change', async () => {
+    const { result, rerender } = renderHook(
+      ({ id }) => useRepeat(Effect.succeed(id), Schedule.recurs(0), [id]),
+      { initialProps: { id: 1 } }
+    );
+
+    await waitFor(() => {
+      expect(result.current.data).toBe(1);
+    });
+
+    rerender({ id: 2 });
+
+    await waitFor(() => {
+      expect(result.current.data).toBe(2);
+    });
+    expect(result.current.iterations).toBe(1);
+  });
+});
@@ -0,0 +1,179 @@
+import { useCallback, useEffect as useReactEffect, useRef, useState } from 'react';
+import * as Effect from 'effect/Effect';
+import * as Duration from 'effect/Duration';
+import * as Exit from 'effect/Exit';
+import * as Fiber from 'effect/Fiber';
+import * as Runtime from 'effect/Runtime';
+import * as Schedule from 'effect/Schedule';
+import { useRuntime, reportMissingServices } from './useRuntime';
+import { exitToResult, resultError, type EffectResult } from './useEffectResult';
+
+/**
+ * Options for useRepeat
+ *
+ * Repetition stops after a value for which `until` returns true or `while`
+ * returns false.
+ */
+export interface RepeatOptions<A> {
+  until?: (_value: A) => boolean;
+  while?: (_value: A) => boolean;
+}
+
+/**
+ * Returned by useRepeat
+ *
+ * `data` and `result` hold the value of the latest iteration, or its failure;
+ * `running` is true until the repetition ends, fails or is stopped.
+ */
+export interface Repeat<A, E> {
+  data: A | null;
+  error: E | null;
+  result: EffectResult<A, E>;
+  loading: boolean;
+  running: boolean;
+  iterations: number;
+  /**
+   * Stop repeating, interrupting the running iteration
+   */
+  stop: () => void;
+  /**
+   * Start repeating again from the first iteration
+   */
+  restart: () => void;
+}
+
+interface RepeatState<A, E> {
+  data: A | null;
+  error: E | null;
+  result: EffectResult<A, E>;
+  loading: boolean;
+  running: boolean;
+  iterations: number;
+}
+
+/**
+ * Run an Effect, then run it again after each success according to a Schedule
+ *
+ * The value of every iteration is shown as it completes. A duration waits
+ * that long between iterations; any Schedule can be given instead, and it
+ * receives the values of the effect. Repetition ends when the schedule is
+ * done, a predicate stops it, the effect fails, or `stop` is called.
+ *
+ * The running iteration is interrupted when the component unmounts or the
+ * deps change, so its finalizers run; the repetition restarts with new deps.
+ *
+ * @param effect - The Effect to repeat
+ * @param schedule - Spacing between iterations, or the Schedule of the iterations
+ * @param deps - Dependencies array
+ * @param options - `until` and `while` predicates on the values
+ * @returns Object containing the latest iteration, the number of iterations, stop and restart
+ */
+export function useRepeat<A, E, R = never>(
+  effect: Effect.Effect<A, E, R>,
+  schedule: Duration.DurationInput | Schedule.Schedule<unknown, A>,
+  deps: React.DependencyList = [],
+  options?: RepeatOptions<A>
+): Repeat<A, E> {
+  const runtime = useRuntime<R>();
+  const [state, setState] = useState<RepeatState<A, E>>({
+    data: null,
+    error: null,
+    result: { _tag: 'Loading' },
+    loading: true,
+    running: true,
+    iterations: 0,
+  });
+
+  // Latest inputs, read when the repetition (re)starts
+  const latest = useRef({ effect, schedule, runtime, options });
+  latest.current = { effect, schedule, runtime, options };
+
+  const fiberRef = useRef<Fiber.RuntimeFiber<unknown, E> | null>(null);
+  const generationRef = useRef(0);
+
+  // Interrupt the repetition, so that the finalizers of its iteration run
+  const interrupt = useCallback(() => {
+    generationRef.current++;
+    const fiber = fiberRef.current;
+    if (fiber) {
+      fiberRef.current = null;
+      Effect.runFork(Fiber.interrupt(fiber));
+    }
+  }, []);
+
+  const start = useCallback(() => {
+    interrupt();
+    const generation = ++generationRef.current;
+    const { effect, schedule, runtime, options } = latest.current;
+
+    // Values are delivered asynchronously, like the promise of a run, and
+    // dropped once the repetition restarted or stopped
+    const update = (f: (_prev: RepeatState<A, E>) => RepeatState<A, E>) => {
+      Promise.resolve().then(() => {
+        if (generationRef.current === generation) {
+          setState(f);
+        }
+      });
+    };
+
+    const repeated = reportMissingServices(effect).pipe(
+      Effect.tap((value) =>
+        Effect.sync(() =>
+          update((prev) => ({
+            data: value,
+            error: null,
+            result: { _tag: 'Success', value },
+            loading: false,
+            running: true,
+            iterations: prev.iterations + 1,
+          }))
+        )
+      ),
+      Effect.repeat({
+        schedule: Schedule.isSchedule(schedule) ? schedule : Schedule.spaced(schedule),
+        until: options?.until,
+        while: options?.while,
+      })
+    );
+
+    const fiber = Runtime.runFork(runtime)(repeated);
+    fiberRef.current = fiber;
+    setState((prev) => ({ ...prev, running: true, iterations: 0 }));
+
+    Effect.runPromise(Fiber.await(fiber)).then((exit) => {
+      if (fiberRef.current === fiber) {
+        fiberRef.current = null;
+      }
+
+      // A finished repetition keeps showing its last iteration
+      if (Exit.isSuccess(exit)) {
+        update((prev) => ({ ...prev, loading: false, running: false }));
+        return;
+      }
+      const result = exitToResult<A, E>(Exit.failCause(exit.cause));
+      update((prev) => ({
+        ...prev,
+        error: resultError(result),
+        result,
+        loading: false,
+        running: false,
+      }));
+    });
+  }, [interrupt]);
+
+  useReactEffect(() => {
+    start();
+    return interrupt;
+  }, [...deps, runtime]);
+
+  const stop = useCallback(() => {
+    interrupt();
+    setState((prev) => ({ ...prev, running: false }));
+  }, [interrupt]);
+
+  return {
+    ...state,
+    stop,
+    restart: start,
+  };
+}
@@ -1,7 +1,8 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, waitFor } from '@testing-library/react';
 import { useRequest } from './useRequest';
 import * as Effect from 'effect/Effect';
+import * as Cause from 'effect/Cause';
 import * as Request from 'effect/Request';
 import * as RequestResolver from 'effect/RequestResolver';
 import * as Runtime from 'effect/Runtime';
@@ -359,4 +360,94 @@ describe('useRequest', () => {
       { id: '2', name: 'User 2' },
     ]);
   });
+
+  describe('cancellation', () => {
+    const started = vi.fn();
+
+    beforeEach(() => {
+      started.mockClear();
+    });
+
+    // Resolver whose requests only settle when their AbortSignal aborts
+    const makeAbortableResolver = (onAbort: () => void) =>
+      RequestResolver.fromEffect((_req: GetUser) =>
+        Effect.tryPromise({
+          try: (signal) =>
+            new Promise<{ id: string; name: string }>((_, reject) => {
+              started();
+              signal.addEventListener('abort', () => {
+                onAbort();
+                reject(new Error('aborted'));
+              });
+            }),
+          catch: (error) => error as Error,
+        })
+      );
+
+    it('should interrupt running requests with cancel', async () => {
+      const aborted = vi.fn();
+      const { result } = renderHook(() => useRequest(makeAbortableResolver(aborted)));
+
+      const promise = result.current.executePromise(GetUser({ id: '1' }));
+      await waitFor(() => expect(started).toHaveBeenCalled());
+      result.current.cancel();
+
+      await expect(promise).rejects.toBeDefined();
+      expect(aborted).toHaveBeenCalledTimes(1);
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+      expect(result.current.error).toBeNull();
+    });
+
+    it('should interrupt a request when the signal passed to executePromise aborts', async () => {
+      const aborted = vi.fn();
+      const { result } = renderHook(() => useRequest(makeAbortableResolver(aborted)));
+      const controller = new AbortController();
+
+      const promise = result.current.executePromise(GetUser({ id: '1' }), {
+        signal: controller.signal,
+      });
+      await waitFor(() => expect(started).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(promise).rejects.toBeDefined();
+      expect(aborted).toHaveBeenCalledTimes(1);
+    });
+
+    it('should interrupt running requests on unmount with abortOnUnmount', async () => {
+      const aborted = vi.fn();
+      const { result, unmount } = renderHook(() =>
+        useRequest(makeAbortableResolver(aborted), { abortOnUnmount: true })
+      );
+
+      const promise = result.current.executePromise(GetUser({ id: '1' }));
+      await waitFor(() => expect(started).toHaveBeenCalled());
+      unmount();
+
+      await expect(promise).rejects.toBeDefined();
+      expect(aborted).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('timeout', () => {
+    it('should reject a request running longer than the timeout', async () => {
+      const resolver = RequestResolver.fromEffect((_req: GetUser) => Effect.never);
+
+      const { result } = renderHook(() => useRequest(resolver, { timeout: '20 millis' }));
+
+      await expect(result.current.executePromise(GetUser({ id: '1' }))).rejects.toBeDefined();
+
+      await waitFor(() => {
+        expect(result.current.timedOut).toBe(true);
+      });
+      expect(result.current.loading).toBe(false);
+
+      const error = await Effect.runPromise(
+        Effect.flip(result.current.execute(GetUser({ id: '2' })))
+      );
+      expect(error).toBeInstanceOf(Cause.TimeoutException);
+    });
+  });
 });
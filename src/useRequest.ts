@@ -1,62 +1,126 @@
-import { useCallback, useState, useRef } from 'react';
+import { useCallback, useEffect, useState, useRef } from 'react';
+import * as Cause from 'effect/Cause';
+import * as Duration from 'effect/Duration';
 import * as Effect from 'effect/Effect';
 import * as Request from 'effect/Request';
 import * as RequestResolver from 'effect/RequestResolver';
 import * as Runtime from 'effect/Runtime';
+import { isTimeoutRejection, withTimeout } from './useEffectResult';
 
 /**
  * React hook for Effect Request/RequestResolver - enables request batching and N+1 optimization
  *
+ * Requests run by `executePromise` are interrupted by `cancel`, when the
+ * `signal` passed to the call aborts, and on unmount with `abortOnUnmount`.
+ * Interruption aborts the AbortSignal that Effect.tryPromise passes to the
+ * promises of the resolver. Cancelled calls reject without setting `error`.
+ *
+ * With `timeout`, a request taking longer fails with a TimeoutException, and
+ * a call of `executePromise` rejected by it sets `timedOut`.
+ *
  * @param resolver - The RequestResolver that handles batching requests
  * @param options - Optional configuration including custom runtime
- * @returns Object containing execute, executePromise, loading, and error state
+ * @returns Object containing execute, executePromise, cancel, loading, and error state
  */
 export function useRequest<A extends Request.Request<any, any>>(
   resolver: RequestResolver.RequestResolver<A, never>,
   options?: {
     runtime?: Runtime.Runtime<never>;
+    abortOnUnmount?: boolean;
+    timeout?: Duration.DurationInput;
   }
 ): {
-  execute: <E, R>(request: Request.Request<E, R>) => Effect.Effect<E, R>;
-  executePromise: <E, R>(request: Request.Request<E, R>) => Promise<E>;
+  execute: <E, R>(
+    request: Request.Request<E, R>
+  ) => Effect.Effect<E, R | Cause.TimeoutException>;
+  executePromise: <E, R>(
+    request: Request.Request<E, R>,
+    options?: { signal?: AbortSignal }
+  ) => Promise<E>;
+  cancel: () => void;
   loading: boolean;
   error: any | null;
+  timedOut: boolean;
 } {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<any | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
   const resolverRef = useRef(resolver);
+  const controllersRef = useRef(new Set<AbortController>());
+  const abortOnUnmountRef = useRef(options?.abortOnUnmount ?? false);
 
   // Update resolver reference when it changes
   resolverRef.current = resolver;
+  abortOnUnmountRef.current = options?.abortOnUnmount ?? false;
+
+  // Interrupt the requests run by executePromise
+  const cancel = useCallback(() => {
+    const controllers = controllersRef.current;
+    controllers.forEach((controller) => controller.abort());
+    controllers.clear();
+  }, []);
+
+  useEffect(
+    () => () => {
+      if (abortOnUnmountRef.current) {
+        cancel();
+      }
+    },
+    [cancel]
+  );
+
+  const timeout = options?.timeout;
 
   const execute = useCallback(
-    <E, R>(request: Request.Request<E, R>): Effect.Effect<E, R> => {
-      return Effect.request(request, resolverRef.current as any) as Effect.Effect<E, R>;
+    <E, R>(request: Request.Request<E, R>): Effect.Effect<E, R | Cause.TimeoutException> => {
+      return withTimeout(
+        Effect.request(request, resolverRef.current as any) as Effect.Effect<E, R>,
+        timeout
+      );
     },
-    []
+    [timeout]
   );
 
   const executePromise = useCallback(
-    async <E, R>(request: Request.Request<E, R>): Promise<E> => {
+    async <E, R>(
+      request: Request.Request<E, R>,
+      callOptions?: { signal?: AbortSignal }
+    ): Promise<E> => {
       setLoading(true);
       setError(null);
+      setTimedOut(false);
+
+      // Aborting the controller interrupts the fiber running the request
+      const controller = new AbortController();
+      const abort = () => controller.abort();
+      const controllers = controllersRef.current;
+      controllers.add(controller);
+      callOptions?.signal?.addEventListener('abort', abort);
+      if (callOptions?.signal?.aborted) abort();
 
       try {
-        const effect = Effect.request(request, resolverRef.current as any) as Effect.Effect<E, any, never>;
+        const effect = execute(request);
         const result = options?.runtime
-          ? await Runtime.runPromise(options.runtime)(effect)
-          : await Effect.runPromise(effect);
+          ? await Runtime.runPromise(options.runtime)(effect, { signal: controller.signal })
+          : await Effect.runPromise(effect, { signal: controller.signal });
 
         setLoading(false);
         return result;
       } catch (err) {
-        setError(err);
+        // Cancelled calls are not errors
+        if (!controller.signal.aborted) {
+          setError(err);
+          setTimedOut(isTimeoutRejection(err));
+        }
         setLoading(false);
         throw err;
+      } finally {
+        controllers.delete(controller);
+        callOptions?.signal?.removeEventListener('abort', abort);
       }
     },
-    [options?.runtime]
+    [execute, options?.runtime]
   );
 
-  return { execute, executePromise, loading, error };
+  return { execute, executePromise, cancel, loading, error, timedOut };
 }
@@ -1,8 +1,16 @@
 import { describe, it, expect, afterEach, vi } from 'vitest';
 import { renderHook, waitFor, cleanup, act } from '@testing-library/react';
-import { useRetry } from './useRetry';
+import { useRetry, retryPolicy } from './useRetry';
 import * as Effect from 'effect/Effect';
 import * as Duration from 'effect/Duration';
+import * as Schedule from 'effect/Schedule';
+import * as Data from 'effect/Data';
+
+class RateLimited extends Data.TaggedError('RateLimited')<{}> {}
+class Timeout extends Data.TaggedError('Timeout')<{}> {}
+class Unauthorized extends Data.TaggedError('Unauthorized')<{}> {}
+
+type ApiError = RateLimited | Timeout | Unauthorized;
 
 describe('useRetry', () => {
   afterEach(() => {
@@ -274,4 +282,240 @@ describe('useRetry', () => {
     expect(value).toBe(42);
     expect(result.current.isRetrying).toBe(false);
   });
+  describe('per-execution state', () => {
+    it('should pass the attempt number of each execution to shouldRetry', async () => {
+      const seen: number[] = [];
+      const { result } = renderHook(() =>
+        useRetry<unknown, Error>({
+          maxAttempts: 3,
+          delay: Duration.millis(10),
+          shouldRetry: (_error, attempt) => {
+            seen.push(attempt);
+            return true;
+          },
+        })
+      );
+
+      const effect = Effect.fail(new Error('fail'));
+      await expect(result.current.execute(effect)).rejects.toThrow('fail');
+      await expect(result.current.execute(effect)).rejects.toThrow('fail');
+
+      expect(seen).toEqual([1, 2, 3, 1, 2, 3]);
+    });
+
+    it('should count the attempts of concurrent executions separately', async () => {
+      const onFailure = vi.fn();
+      const { result } = renderHook(() =>
+        useRetry<unknown, string>({
+          maxAttempts: 3,
+          delay: Duration.millis(10),
+          onFailure,
+        })
+      );
+
+      await Promise.allSettled([
+        result.current.execute(Effect.fail('a')),
+        result.current.execute(Effect.fail('b')),
+      ]);
+
+      expect(onFailure).toHaveBeenCalledWith('a', 3);
+      expect(onFailure).toHaveBeenCalledWith('b', 3);
+      await waitFor(() => {
+        expect(result.current.attempts).toBe(2);
+        expect(result.current.isRetrying).toBe(false);
+      });
+    });
+
+    it('should keep separate state for each run of a retried effect', async () => {
+      let attemptCount = 0;
+      const onSuccess = vi.fn();
+      const { result } = renderHook(() =>
+        useRetry<number, string>({
+          maxAttempts: 3,
+          delay: Duration.millis(10),
+          onSuccess,
+        })
+      );
+
+      const retried = result.current.retry(
+        Effect.suspend(() =>
+          ++attemptCount % 2 === 1 ? Effect.fail('odd') : Effect.succeed(attemptCount)
+        )
+      );
+
+      expect(await Effect.runPromise(retried)).toBe(2);
+      expect(await Effect.runPromise(retried)).toBe(4);
+      expect(onSuccess).toHaveBeenNthCalledWith(1, 2, 1);
+      expect(onSuccess).toHaveBeenNthCalledWith(2, 4, 1);
+    });
+  });
+
+  describe('custom schedule', () => {
+    it('should retry according to the schedule', async () => {
+      let attemptCount = 0;
+      const { result } = renderHook(() =>
+        useRetry<unknown, Error>({
+          schedule: Schedule.spaced('10 millis').pipe(
+            Schedule.intersect(Schedule.recurs(4))
+          ),
+        })
+      );
+
+      await expect(
+        result.current.execute(
+          Effect.suspend(() => {
+            attemptCount++;
+            return Effect.fail(new Error('fail'));
+          })
+        )
+      ).rejects.toThrow('fail');
+
+      expect(attemptCount).toBe(5);
+    });
+
+    it('should limit a schedule with maxAttempts when given', async () => {
+      let attemptCount = 0;
+      const { result } = renderHook(() =>
+        useRetry<unknown, Error>({
+          schedule: Schedule.spaced('10 millis'),
+          maxAttempts: 2,
+        })
+      );
+
+      await expect(
+        result.current.execute(
+          Effect.suspend(() => {
+            attemptCount++;
+            return Effect.fail(new Error('fail'));
+          })
+        )
+      ).rejects.toThrow('fail');
+
+      expect(attemptCount).toBe(2);
+    });
+  });
+
+  describe('executeWithHistory', () => {
+    it('should report the errors and delays of the failed attempts', async () => {
+      let attemptCount = 0;
+      const { result } = renderHook(() =>
+        useRetry<string, string>({
+          maxAttempts: 3,
+          delay: Duration.millis(20),
+        })
+      );
+
+      const { result: outcome, history } = await result.current.executeWithHistory(
+        Effect.suspend(() =>
+          ++attemptCount < 3 ? Effect.fail(`error ${attemptCount}`) : Effect.succeed('done')
+        )
+      );
+
+      expect(outcome).toEqual({ _tag: 'Success', value: 'done' });
+      expect(history.map(({ attempt, error }) => [attempt, error])).toEqual([
+        [1, 'error 1'],
+        [2, 'error 2'],
+      ]);
+      expect(history.map(({ delay }) => delay && Duration.toMillis(delay))).toEqual([
+        20, 20,
+      ]);
+    });
+
+    it('should resolve with the failure and a null delay for the last attempt', async () => {
+      const { result } = renderHook(() =>
+        useRetry<unknown, string>({
+          maxAttempts: 2,
+          delay: Duration.millis(10),
+        })
+      );
+
+      const { result: outcome, history } = await result.current.executeWithHistory(
+        Effect.fail('fail')
+      );
+
+      expect(outcome._tag).toBe('Failure');
+      expect(history).toHaveLength(2);
+      expect(history[1]).toEqual({ attempt: 2, error: 'fail', delay: null });
+    });
+  });
+  describe('retry policies', () => {
+    it('should retry each error with the schedule of its tag', async () => {
+      const errors: ApiError[] = [
+        new RateLimited(),
+        new RateLimited(),
+        new Timeout(),
+        new RateLimited(),
+      ];
+      let attemptCount = 0;
+      const { result } = renderHook(() =>
+        useRetry<string, ApiError>({
+          policies: {
+            RateLimited: Schedule.spaced('10 millis').pipe(
+              Schedule.intersect(Schedule.recurs(3))
+            ),
+            Timeout: Schedule.recurs(1),
+            Unauthorized: false,
+          },
+        })
+      );
+
+      const value = await result.current.execute(
+        Effect.suspend(() => {
+          const error = errors[attemptCount++];
+          return error ? Effect.fail(error) : Effect.succeed('done');
+        })
+      );
+
+      expect(value).toBe('done');
+      expect(attemptCount).toBe(5);
+    });
+
+    it('should not retry errors whose policy is false', async () => {
+      let attemptCount = 0;
+      const { result } = renderHook(() =>
+        useRetry<string, ApiError>({
+          policies: {
+            RateLimited: Schedule.recurs(3),
+            Timeout: Schedule.recurs(3),
+            Unauthorized: false,
+          },
+        })
+      );
+
+      const { result: outcome, history } = await result.current.executeWithHistory(
+        Effect.suspend(() => {
+          attemptCount++;
+          return Effect.fail(new Unauthorized());
+        })
+      );
+
+      expect(outcome._tag).toBe('Failure');
+      expect(history).toEqual([{ attempt: 1, error: new Unauthorized(), delay: null }]);
+      expect(attemptCount).toBe(1);
+    });
+
+    it('should stop retrying a tag when its schedule is done', async () => {
+      let attemptCount = 0;
+      const retried = Effect.suspend(() => {
+        attemptCount++;
+        return Effect.fail(new Timeout());
+      }).pipe(
+        Effect.retry(
+          retryPolicy<ApiError>({
+            RateLimited: false,
+            Timeout: Schedule.recurs(2),
+            Unauthorized: false,
+          })
+        )
+      );
+
+      await expect(Effect.runPromise(retried)).rejects.toThrow();
+      expect(attemptCount).toBe(3);
+    });
+
+    it('should require a policy for every tag', () => {
+      // @ts-expect-error Unauthorized has no policy
+      retryPolicy<ApiError>({ RateLimited: false, Timeout: false });
+    });
+  });
 });
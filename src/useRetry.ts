@@ -1,12 +1,106 @@
 import { useState, useCallback, useRef } from 'react';
 import * as Effect from 'effect/Effect';
+import * as Cause from 'effect/Cause';
+import * as Clock from 'effect/Clock';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
 import * as Schedule from 'effect/Schedule';
+import * as ScheduleDecision from 'effect/ScheduleDecision';
+import * as ScheduleIntervals from 'effect/ScheduleIntervals';
 import * as Duration from 'effect/Duration';
+import { exitToResult, type EffectResult } from './useEffectResult';
 
+/**
+ * The `_tag`s of the tagged members of an error union
+ */
+export type ErrorTag<E> = E extends { readonly _tag: infer Tag extends string } ? Tag : never;
+
+/**
+ * Retry policy for each tag of an error union
+ *
+ * Every tag of `E` must be listed, with the Schedule its errors are retried
+ * with, or `false` to never retry them.
+ */
+export type RetryPolicies<E> = {
+  readonly [Tag in ErrorTag<E>]:
+    | Schedule.Schedule<unknown, Extract<E, { readonly _tag: Tag }>, never>
+    | false;
+};
+
+/**
+ * Combine retry policies into a Schedule fed with the errors
+ *
+ * Each error is passed to the Schedule of its tag, which keeps its own state,
+ * so that errors of one tag do not use up the retries of another. Errors
+ * without a policy, or whose policy is `false`, are not retried.
+ *
+ * @param policies - Schedule or `false` for each error tag
+ * @returns Schedule that retries each error according to its tag
+ */
+export function retryPolicy<E>(policies: RetryPolicies<E>): Schedule.Schedule<unknown, E, never> {
+  const byTag = policies as Record<string, Schedule.Schedule<unknown, unknown, never> | false>;
+  const has = (record: object, key: string) => Object.prototype.hasOwnProperty.call(record, key);
+
+  return Schedule.makeWithState<Record<string, unknown>, E, unknown>({}, (now, error, states) => {
+    const tag = (error as { readonly _tag?: unknown } | null)?._tag;
+    const schedule = typeof tag === 'string' && has(byTag, tag) ? byTag[tag] : false;
+    if (typeof tag !== 'string' || !schedule) {
+      return Effect.succeed([states, undefined, ScheduleDecision.done] as const);
+    }
+
+    // Each tag steps its own state of its Schedule
+    const state = has(states, tag) ? states[tag] : schedule.initial;
+    return schedule
+      .step(now, error, state)
+      .pipe(
+        Effect.map(([next, out, decision]) => [{ ...states, [tag]: next }, out, decision] as const)
+      );
+  });
+}
+
+/**
+ * A failed attempt of an execution
+ *
+ * `delay` is the wait before the next attempt, `null` when the error was not
+ * retried.
+ */
+export interface RetryAttempt<E> {
+  attempt: number;
+  error: E;
+  delay: Duration.Duration | null;
+}
+
+/**
+ * Outcome of one execution, with the history of its failed attempts
+ */
+export interface RetryResult<A, E> {
+  result: EffectResult<A, E>;
+  history: ReadonlyArray<RetryAttempt<E>>;
+}
+
+/**
+ * Retry failing effects
+ *
+ * Every execution keeps its own attempt count and schedule state, so
+ * concurrent executions do not interfere and `shouldRetry` receives the number
+ * of the attempt that failed in that execution. `attempts` and `isRetrying`
+ * show the latest execution.
+ *
+ * `schedule` replaces `delay` with any Schedule fed with the errors (jittered,
+ * capped, or bounded in time with `Schedule.upTo`), and `policies` with a
+ * Schedule or `false` for each `_tag` of a tagged error union (see
+ * `retryPolicy`); `maxAttempts` then limits the attempts only when given.
+ * Defects and interruptions are never retried.
+ *
+ * @param options - Attempts, delays, retry condition and callbacks
+ * @returns Object containing execute, executeWithHistory, executeEffect, retry, and the state of the latest execution
+ */
 export function useRetry<A, E = never>(
   options?: {
     maxAttempts?: number;
     delay?: Duration.Duration | 'exponential' | 'linear';
+    schedule?: Schedule.Schedule<unknown, E, never>;
+    policies?: RetryPolicies<E>;
     shouldRetry?: (_error: E, _attempt: number) => boolean;
     onRetry?: (_error: E, _attempt: number) => void;
     onSuccess?: (_value: A, _attempts: number) => void;
@@ -14,6 +108,7 @@ export function useRetry<A, E = never>(
   }
 ): {
   execute: (effect: Effect.Effect<A, E, never>) => Promise<A>;
+  executeWithHistory: (effect: Effect.Effect<A, E, never>) => Promise<RetryResult<A, E>>;
   executeEffect: (effect: Effect.Effect<A, E, never>) => Effect.Effect<A, E, never>;
   retry: <R>(effect: Effect.Effect<A, E, R>) => Effect.Effect<A, E, R>;
   attempts: number;
@@ -23,11 +118,21 @@ export function useRetry<A, E = never>(
   const [attempts, setAttempts] = useState(0);
   const [isRetrying, setIsRetrying] = useState(false);
   const optionsRef = useRef(options);
+  const executionRef = useRef(0);
 
   optionsRef.current = options;
 
-  const getSchedule = useCallback((): Schedule.Schedule<any, E, never> => {
-    const maxAttempts = optionsRef.current?.maxAttempts ?? 3;
+  const getSchedule = useCallback((): Schedule.Schedule<unknown, E, never> => {
+    const maxAttempts = optionsRef.current?.maxAttempts;
+    const policies = optionsRef.current?.policies;
+    const custom = policies ? retryPolicy(policies) : optionsRef.current?.schedule;
+
+    if (custom) {
+      return maxAttempts === undefined
+        ? custom
+        : custom.pipe(Schedule.intersect(Schedule.recurs(maxAttempts - 1)));
+    }
+
     const delay = optionsRef.current?.delay ?? 'exponential';
 
     let baseSchedule: Schedule.Schedule<any, any, never>;
@@ -48,67 +153,80 @@ export function useRetry<A, E = never>(
     }
 
     // Limit retries to maxAttempts - 1 (first attempt + retries)
-    let schedule: Schedule.Schedule<any, E, never> = baseSchedule.pipe(
-      Schedule.compose(Schedule.recurs(maxAttempts - 1))
-    );
-
-    // Add retry condition if provided
-    if (optionsRef.current?.shouldRetry) {
-      const shouldRetry = optionsRef.current.shouldRetry;
-      schedule = schedule.pipe(
-        Schedule.whileInput((error: E) => {
-          const currentAttempt = attempts + 1;
-          return shouldRetry(error, currentAttempt);
-        })
-      );
-    }
+    return baseSchedule.pipe(Schedule.compose(Schedule.recurs((maxAttempts ?? 3) - 1)));
+  }, []);
 
-    return schedule;
-  }, [attempts]);
+  // Run an effect until it succeeds or is not retried, stepping a schedule
+  // of its own so that the delays are recorded in the history
+  const retryWithHistory = useCallback(
+    <R,>(
+      effect: Effect.Effect<A, E, R>
+    ): Effect.Effect<[Exit.Exit<A, E>, Array<RetryAttempt<E>>], never, R> =>
+      Effect.gen(function* () {
+        const execution = ++executionRef.current;
+        const isLatest = () => executionRef.current === execution;
+        const schedule = getSchedule();
+        const history: Array<RetryAttempt<E>> = [];
+        let state = schedule.initial;
 
-  const retry = useCallback(
-    <R,>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> => {
-      let retryCount = 0;
-      let lastError: E | null = null;
-
-      return effect.pipe(
-        Effect.tapError((error) =>
-          Effect.sync(() => {
-            lastError = error;
-          })
-        ),
-        Effect.retry({
-          schedule: getSchedule().pipe(
-            Schedule.tapOutput(() =>
-              Effect.sync(() => {
-                retryCount++;
-                setAttempts((prev) => prev + 1);
-                setIsRetrying(true);
-                // Call onRetry for each retry attempt
-                if (lastError !== null) {
-                  optionsRef.current?.onRetry?.(lastError, retryCount);
-                }
-              })
-            )
-          ),
-        }),
-        Effect.tap((value) =>
-          Effect.sync(() => {
-            setIsRetrying(false);
-            optionsRef.current?.onSuccess?.(value, retryCount);
-          })
-        ),
-        Effect.tapError((error) =>
-          Effect.sync(() => {
-            setIsRetrying(false);
-            optionsRef.current?.onFailure?.(error, retryCount + 1);
-          })
-        )
-      );
-    },
+        if (isLatest()) setAttempts(0);
+
+        while (true) {
+          const exit = yield* Effect.exit(effect);
+
+          if (Exit.isSuccess(exit)) {
+            if (isLatest()) setIsRetrying(false);
+            optionsRef.current?.onSuccess?.(exit.value, history.length);
+            return [exit, history];
+          }
+
+          const failure = Cause.failureOption(exit.cause);
+          if (Option.isNone(failure)) {
+            if (isLatest()) setIsRetrying(false);
+            return [exit, history];
+          }
+
+          const error = failure.value;
+          const attempt = history.length + 1;
+          const shouldRetry = optionsRef.current?.shouldRetry;
+
+          const now = yield* Clock.currentTimeMillis;
+          let decision: ScheduleDecision.ScheduleDecision = ScheduleDecision.done;
+          if (!shouldRetry || shouldRetry(error, attempt)) {
+            const [next, , stepDecision] = yield* schedule.step(now, error, state);
+            state = next;
+            decision = stepDecision;
+          }
+
+          if (ScheduleDecision.isDone(decision)) {
+            history.push({ attempt, error, delay: null });
+            if (isLatest()) setIsRetrying(false);
+            optionsRef.current?.onFailure?.(error, attempt);
+            return [exit, history];
+          }
+
+          const delay = Duration.millis(
+            Math.max(0, ScheduleIntervals.start(decision.intervals) - now)
+          );
+          history.push({ attempt, error, delay });
+          if (isLatest()) {
+            setAttempts(attempt);
+            setIsRetrying(true);
+          }
+          optionsRef.current?.onRetry?.(error, attempt);
+
+          yield* Effect.sleep(delay);
+        }
+      }),
     [getSchedule]
   );
 
+  const retry = useCallback(
+    <R,>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> =>
+      retryWithHistory(effect).pipe(Effect.flatMap(([exit]) => exit)),
+    [retryWithHistory]
+  );
+
   const executeEffect = useCallback(
     (effect: Effect.Effect<A, E, never>): Effect.Effect<A, E, never> => {
       return retry(effect);
@@ -117,20 +235,19 @@ export function useRetry<A, E = never>(
   );
 
   const execute = useCallback(
-    async (effect: Effect.Effect<A, E, never>): Promise<A> => {
-      setIsRetrying(true);
-      try {
-        const result = await Effect.runPromise(retry(effect));
-        return result;
-      } catch (error) {
-        throw error;
-      } finally {
-        setIsRetrying(false);
-      }
-    },
+    (effect: Effect.Effect<A, E, never>): Promise<A> => Effect.runPromise(retry(effect)),
     [retry]
   );
 
+  const executeWithHistory = useCallback(
+    (effect: Effect.Effect<A, E, never>): Promise<RetryResult<A, E>> =>
+      Effect.runPromise(retryWithHistory(effect)).then(([exit, history]) => ({
+        result: exitToResult(exit),
+        history,
+      })),
+    [retryWithHistory]
+  );
+
   const reset = useCallback(() => {
     setAttempts(0);
     setIsRetrying(false);
@@ -138,6 +255,7 @@ export function useRetry<A, E = never>(
 
   return {
     execute,
+    executeWithHistory,
     executeEffect,
     retry,
     attempts,
@@ -0,0 +1,301 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { act, cleanup, renderHook, waitFor } from '@testing-library/react';
+import { useRuntime, reportMissingServices, MissingServiceError } from './useRuntime';
+import { EffectProvider } from './useService';
+import { useEffectQuery } from './useEffectQuery';
+import { useEffectRun } from './useEffectRun';
+import { useEffectResult, type EffectResult } from './useEffectResult';
+import { useEffectCallback } from './useEffectCallback';
+import { useFiber } from './useFiber';
+import { usePoll } from './usePoll';
+import { useRepeat } from './useRepeat';
+import { useStream } from './useStream';
+import { useStreamValue } from './useStreamValue';
+import { suspendOnEffect, clearEffectSuspense } from './useEffectSuspense';
+import { QueryClientProvider, makeQueryClient } from './useQueryClient';
+import * as Cause from 'effect/Cause';
+import * as Context from 'effect/Context';
+import * as Effect from 'effect/Effect';
+import * as Exit from 'effect/Exit';
+import * as Layer from 'effect/Layer';
+import * as Runtime from 'effect/Runtime';
+import * as Stream from 'effect/Stream';
+import React from 'react';
+
+class Greeter extends Context.Tag('Greeter')<
+  Greeter,
+  { readonly greet: (_name: string) => string }
+>() {}
+
+class Counter extends Context.Tag('Counter')<
+  Counter,
+  { readonly count: number }
+>() {}
+
+describe('useRuntime', () => {
+  it('should return a runtime instance', () => {
+    const { result } = renderHook(() => useRuntime());
+
+    expect(result.current).toBeDefined();
+    expect(typeof result.current).toBe('object');
+  });
+
+  it('should return the same runtime on re-renders', () => {
+    const { result, rerender } = renderHook(() => useRuntime());
+
+    const firstRuntime = result.current;
+    rerender();
+    const secondRuntime = result.current;
+
+    expect(firstRuntime).toBe(secondRuntime);
+  });
+
+  it('should handle context parameter', () => {
+    const { result } = renderHook(() => useRuntime(undefined));
+
+    expect(result.current).toBeDefined();
+    expect(typeof result.current).toBe('object');
+  });
+
+  it('should provide services from the given context', async () => {
+    const context = Context.make(Greeter, { greet: (name) => `Hello, ${name}` });
+    const { result } = renderHook(() => useRuntime(context));
+
+    const greeting = await Runtime.runPromise(result.current)(
+      Effect.map(Greeter, (greeter) => greeter.greet('Effect'))
+    );
+
+    expect(greeting).toBe('Hello, Effect');
+  });
+
+  it('should keep the runtime stable while the context is unchanged', () => {
+    const context = Context.make(Counter, { count: 1 });
+    const { result, rerender } = renderHook(() => useRuntime(context));
+
+    const firstRuntime = result.current;
+    rerender();
+
+    expect(result.current).toBe(firstRuntime);
+  });
+
+  it('should inherit services from the parent EffectProvider', async () => {
+    const layer = Layer.succeed(Greeter, { greet: (name) => `Hi, ${name}` });
+    const context = Context.make(Counter, { count: 3 });
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <EffectProvider layer={layer}>{children}</EffectProvider>
+    );
+
+    const { result } = renderHook(() => useRuntime(context), { wrapper });
+    const runtime = result.current as Runtime.Runtime<Greeter | Counter>;
+
+    const value = await Runtime.runPromise(runtime)(
+      Effect.gen(function* () {
+        const greeter = yield* Greeter;
+        const counter = yield* Counter;
+        return greeter.greet(String(counter.count));
+      })
+    );
+
+    expect(value).toBe('Hi, 3');
+  });
+
+  it('should let the given context override parent services', async () => {
+    const layer = Layer.succeed(Counter, { count: 1 });
+    const context = Context.make(Counter, { count: 2 });
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <EffectProvider layer={layer}>{children}</EffectProvider>
+    );
+
+    const { result } = renderHook(() => useRuntime(context), { wrapper });
+
+    const count = await Runtime.runPromise(result.current)(
+      Effect.map(Counter, (counter) => counter.count)
+    );
+
+    expect(count).toBe(2);
+  });
+
+  it('should die when an effect needs a service the runtime lacks', async () => {
+    const context = Context.make(Counter, { count: 1 });
+    const { result } = renderHook(() => useRuntime(context));
+
+    const exit = await Runtime.runPromiseExit(
+      result.current as Runtime.Runtime<Counter | Greeter>
+    )(Effect.map(Greeter, (greeter) => greeter.greet('x')));
+
+    expect(Exit.isFailure(exit)).toBe(true);
+  });
+
+  it('should throw MissingServiceError when a required service is absent', () => {
+    const context = Context.make(Counter, { count: 1 });
+
+    let thrown: unknown = null;
+    try {
+      renderHook(() => useRuntime(context, { requires: [Counter, Greeter] }));
+    } catch (error) {
+      thrown = error;
+    }
+
+    expect(thrown).toBeInstanceOf(MissingServiceError);
+    expect((thrown as MissingServiceError)._tag).toBe('MissingServiceError');
+    expect((thrown as MissingServiceError).keys).toEqual(['Greeter']);
+  });
+
+  it('should not throw when all required services are present', () => {
+    const context = Context.make(Counter, { count: 1 });
+    const { result } = renderHook(() =>
+      useRuntime(context, { requires: [Counter] })
+    );
+
+    expect(result.current).toBeDefined();
+  });
+});
+
+describe('reportMissingServices', () => {
+  afterEach(() => {
+    cleanup();
+    clearEffectSuspense();
+  });
+
+  // Every hook running effects reaches missing services through `yield* Tag`
+  const greet = Effect.gen(function* () {
+    const greeter = yield* Greeter;
+    return greeter.greet('x');
+  });
+
+  const expectMissingGreeter = (cause: Cause.Cause<unknown>) => {
+    const defect = Cause.squash(cause);
+    expect(defect).toBeInstanceOf(MissingServiceError);
+    expect((defect as MissingServiceError).keys).toEqual(['Greeter']);
+  };
+
+  const expectDefect = async (read: () => EffectResult<unknown, unknown>) => {
+    await waitFor(() => {
+      expect(read()._tag).toBe('Defect');
+    });
+    const result = read();
+    if (result._tag === 'Defect') expectMissingGreeter(result.cause);
+  };
+
+  it('should report missing services in useEffectQuery, useEffectRun and useEffectResult', async () => {
+    const { result } = renderHook(() => ({
+      query: useEffectQuery(greet),
+      run: useEffectRun(greet),
+      result: useEffectResult(greet),
+    }));
+
+    await expectDefect(() => result.current.query.result);
+    await expectDefect(() => result.current.run.result);
+    await expectDefect(() => result.current.result);
+  });
+
+  it('should report missing services in keyed queries', async () => {
+    const client = makeQueryClient();
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <QueryClientProvider client={client}>{children}</QueryClientProvider>
+    );
+
+    const { result } = renderHook(() => useEffectQuery(greet, [], { key: 'greet' }), {
+      wrapper,
+    });
+
+    await expectDefect(() => result.current.result);
+  });
+
+  it('should report missing services in usePoll and useRepeat', async () => {
+    const { result } = renderHook(() => ({
+      poll: usePoll(greet, '1 second'),
+      repeat: useRepeat(greet, '1 second'),
+    }));
+
+    await expectDefect(() => result.current.poll.result);
+    await expectDefect(() => result.current.repeat.result);
+  });
+
+  it('should report missing services in useEffectCallback and useFiber', async () => {
+    const { result } = renderHook(() => ({
+      callback: useEffectCallback(() => greet),
+      fiber: useFiber(greet),
+    }));
+
+    const callbackExit = await act(() => result.current.callback.execute());
+    act(() => {
+      result.current.fiber.start();
+    });
+    const fiberExit = await act(() => result.current.fiber.await());
+
+    for (const exit of [callbackExit, fiberExit]) {
+      expect(exit && Exit.isFailure(exit)).toBe(true);
+      if (exit && Exit.isFailure(exit)) expectMissingGreeter(exit.cause);
+    }
+  });
+
+  it('should report missing services in useStream and useStreamValue', async () => {
+    const stream = Stream.fromEffect(greet);
+    const { result } = renderHook(() => ({
+      stream: useStream(stream),
+      value: useStreamValue(stream),
+    }));
+
+    await waitFor(() => {
+      expect(result.current.stream.loading).toBe(false);
+      expect(result.current.value.loading).toBe(false);
+    });
+
+    for (const { defect, error, done } of [result.current.stream, result.current.value]) {
+      expect(defect).toBeInstanceOf(MissingServiceError);
+      expect((defect as MissingServiceError).keys).toEqual(['Greeter']);
+      expect(error).toBeNull();
+      expect(done).toBe(false);
+    }
+  });
+
+  it('should report missing services in Suspense', async () => {
+    const read = () =>
+      suspendOnEffect(Runtime.defaultRuntime as Runtime.Runtime<Greeter>, 'greet', greet);
+
+    try {
+      read();
+    } catch (promise) {
+      await promise;
+    }
+
+    const exit = read();
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit)) expectMissingGreeter(exit.cause);
+  });
+
+  it('should keep the rest of the cause', async () => {
+    const exit = await Runtime.runPromiseExit(Runtime.defaultRuntime as Runtime.Runtime<Greeter>)(
+      reportMissingServices(
+        Effect.all([greet, Effect.fail('boom' as const)], { concurrency: 'unbounded' })
+      )
+    );
+
+    expect(Exit.isFailure(exit)).toBe(true);
+    if (Exit.isFailure(exit)) {
+      const [defect] = Cause.defects(exit.cause);
+      expect(defect).toBeInstanceOf(MissingServiceError);
+      expect((defect as MissingServiceError).keys).toEqual(['Greeter']);
+      expect(Cause.failures(exit.cause)).toContain('boom');
+    }
+  });
+
+  it('should leave other defects unchanged', async () => {
+    class ServiceError extends Error {}
+    const custom = new ServiceError('Service not found: Greeter');
+    const provided = new Error('Service not found: Greeter');
+
+    const customExit = await Effect.runPromiseExit(reportMissingServices(Effect.die(custom)));
+    const providedExit = await Effect.runPromiseExit(
+      reportMissingServices(Effect.die(provided)).pipe(
+        Effect.provideService(Greeter, { greet: (name) => name })
+      )
+    );
+
+    expect(customExit).toEqual(Exit.die(custom));
+    expect(providedExit).toEqual(Exit.die(provided));
+  });
+});
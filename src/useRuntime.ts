@@ -1,20 +1,210 @@
-import { useMemo } from 'react';
+import { createContext, useContext, useMemo } from 'react';
 import * as Runtime from 'effect/Runtime';
+import * as Cause from 'effect/Cause';
 import * as Context from 'effect/Context';
+import * as Data from 'effect/Data';
+import * as Effect from 'effect/Effect';
+import * as FiberId from 'effect/FiberId';
+import * as FiberRefsPatch from 'effect/FiberRefsPatch';
+import * as Option from 'effect/Option';
+import * as RuntimeFlags from 'effect/RuntimeFlags';
+
+// React Context to hold the Effect Runtime
+const EffectRuntimeContext = createContext<Runtime.Runtime<any> | null>(null);
+
+// Export for use in other hooks
+export { EffectRuntimeContext };
+
+/**
+ * Raised when a runtime does not contain a service it is required to provide
+ */
+export class MissingServiceError extends Data.TaggedError('MissingServiceError')<{
+  readonly keys: ReadonlyArray<string>;
+}> {
+  get message(): string {
+    return `Service not found: ${this.keys.join(', ')}`;
+  }
+}
+
+// Fiber the FiberRef values of providers are recorded for
+const providerFiberId = FiberId.runtime(0, 0);
+
+/**
+ * Extend a parent runtime with a runtime built on top of `base`
+ *
+ * Every provider (EffectProvider, RuntimeProvider, ProvideService) extends
+ * the runtime of its ancestors this way. Services of `runtime` take precedence over those of the parent, and the
+ * FiberRefs and RuntimeFlags that `runtime` changed from `base` (a config
+ * provider, loggers, a log level...) are applied on top of those of the
+ * parent, so that they keep whatever the parent set otherwise.
+ *
+ * @param parent - Runtime to extend; the default runtime when null
+ * @param runtime - Runtime whose services and changes take precedence
+ * @param base - Runtime `runtime` was built on (default: the default runtime)
+ * @returns Runtime providing the services of both
+ */
+export function extendRuntime<R, P = never, B = never>(
+  parent: Runtime.Runtime<P> | null | undefined,
+  runtime: Runtime.Runtime<R>,
+  base: Runtime.Runtime<B> = Runtime.defaultRuntime as Runtime.Runtime<B>
+): Runtime.Runtime<R | P> {
+  const inherited = (parent ?? Runtime.defaultRuntime) as Runtime.Runtime<P>;
+
+  return Runtime.make({
+    context: Context.merge(inherited.context, runtime.context),
+    fiberRefs: FiberRefsPatch.patch(
+      FiberRefsPatch.diff(base.fiberRefs, runtime.fiberRefs),
+      providerFiberId,
+      inherited.fiberRefs
+    ),
+    runtimeFlags: RuntimeFlags.patch(
+      inherited.runtimeFlags,
+      RuntimeFlags.diff(base.runtimeFlags, runtime.runtimeFlags)
+    ),
+  });
+}
+
+/**
+ * Build a Runtime from a Context, inheriting FiberRefs and RuntimeFlags
+ * from the parent runtime (or the default runtime when there is none).
+ * Services in `context` take precedence over services of the parent.
+ *
+ * @param context - Services to provide to the runtime
+ * @param parent - Optional parent runtime to extend
+ * @returns Runtime providing the merged context
+ */
+export function makeRuntime<R, P = never>(
+  context: Context.Context<R>,
+  parent?: Runtime.Runtime<P> | null
+): Runtime.Runtime<R | P> {
+  return extendRuntime(
+    parent,
+    Runtime.make({
+      context,
+      fiberRefs: Runtime.defaultRuntime.fiberRefs,
+      runtimeFlags: Runtime.defaultRuntime.runtimeFlags,
+    })
+  );
+}
+
+/**
+ * Fail with a MissingServiceError if any of the given tags is absent from the runtime
+ *
+ * @param runtime - The runtime to check
+ * @param tags - Tags the runtime is required to provide
+ * @throws MissingServiceError listing every missing tag
+ */
+export function assertServices<R>(
+  runtime: Runtime.Runtime<R>,
+  tags: ReadonlyArray<Context.Tag<any, any>>
+): void {
+  const missing = tags
+    .filter((tag) => Option.isNone(Context.getOption(runtime.context, tag)))
+    .map((tag) => tag.key);
+
+  if (missing.length > 0) {
+    throw new MissingServiceError({ keys: missing });
+  }
+}
+
+// Prefix of the plain Error Effect dies with when a fiber reaches for a
+// service its context lacks; the service key follows it
+const serviceNotFound = 'Service not found: ';
+
+/**
+ * Key of the service named by the defect Effect raises when a fiber reaches
+ * for a service its context lacks, or null for any other defect
+ *
+ * The defect carries no tag, only the key in its message, so the key is
+ * looked up with a tag of the same key and only reported when the context
+ * really lacks it. Errors of other classes are never taken for it.
+ */
+function missingServiceKey(defect: unknown, context: Context.Context<never>): string | null {
+  if (
+    !(defect instanceof Error) ||
+    Object.getPrototypeOf(defect) !== Error.prototype ||
+    !defect.message.startsWith(serviceNotFound)
+  ) {
+    return null;
+  }
+
+  const key = defect.message.slice(serviceNotFound.length).replace(/ \(defined at .*\)$/, '');
+  return Option.isNone(Context.getOption(context, Context.GenericTag(key))) ? key : null;
+}
+
+/**
+ * Turn the defects raised when an effect reaches for services its runtime
+ * does not provide into MissingServiceErrors naming those services
+ *
+ * Only the matching defects are replaced; failures, other defects and
+ * interruptions of the cause are kept as they are. Nothing is inspected
+ * unless the effect dies.
+ *
+ * @param effect - The effect to run
+ * @returns The same effect, dying with MissingServiceError instead
+ */
+export function reportMissingServices<A, E, R>(
+  effect: Effect.Effect<A, E, R>
+): Effect.Effect<A, E, R> {
+  return Effect.flatMap(Effect.context<never>(), (context) =>
+    Effect.mapErrorCause(effect, (cause) => {
+      if (!Cause.isDie(cause)) {
+        return cause;
+      }
+
+      const keys = new Map<unknown, string>();
+      for (const defect of Cause.defects(cause)) {
+        const key = missingServiceKey(defect, context);
+        if (key !== null) keys.set(defect, key);
+      }
+
+      return keys.size === 0
+        ? cause
+        : Cause.match(cause, {
+            onEmpty: Cause.empty,
+            onFail: (error) => Cause.fail(error),
+            onDie: (defect) =>
+              keys.has(defect)
+                ? Cause.die(new MissingServiceError({ keys: [keys.get(defect)!] }))
+                : Cause.die(defect),
+            onInterrupt: (fiberId) => Cause.interrupt(fiberId),
+            onSequential: (left, right) => Cause.sequential(left, right),
+            onParallel: (left, right) => Cause.parallel(left, right),
+          });
+    })
+  );
+}
 
 /**
  * Create a runtime for running Effects in React components
  *
+ * The runtime extends the nearest EffectProvider runtime (or the default
+ * runtime) with the services in `context`.
+ *
  * @param context - Optional context to provide to the runtime
+ * @param options - Optional configuration
+ * @param options.requires - Tags that must be present in the resulting runtime
  * @returns Runtime instance
+ * @throws MissingServiceError if a required service is not provided
  */
 export function useRuntime<R>(
-  context?: Context.Context<R>
+  context?: Context.Context<R>,
+  options?: {
+    requires?: ReadonlyArray<Context.Tag<any, any>>;
+  }
 ): Runtime.Runtime<R> {
-  return useMemo(() => {
+  const parentRuntime = useContext(EffectRuntimeContext);
+
+  const runtime = useMemo(() => {
     if (context) {
-      return Runtime.defaultRuntime as Runtime.Runtime<R>;
+      return makeRuntime(context, parentRuntime) as Runtime.Runtime<R>;
     }
-    return Runtime.defaultRuntime as Runtime.Runtime<R>;
-  }, [context]);
+    return (parentRuntime ?? Runtime.defaultRuntime) as Runtime.Runtime<R>;
+  }, [context, parentRuntime]);
+
+  if (options?.requires) {
+    assertServices(runtime, options.requires);
+  }
+
+  return runtime;
 }
@@ -1,8 +1,17 @@
 import { describe, it, expect, afterEach } from 'vitest';
 import { renderHook, cleanup } from '@testing-library/react';
+import { render, screen, waitFor } from '@testing-library/react';
 import { RuntimeProvider, useRuntimeContext } from './useRuntimeContext';
+import { useService, EffectProvider } from './useService';
+import { useEffectQuery } from './useEffectQuery';
+import { ProvideService } from './useProvideService';
+import * as Config from 'effect/Config';
+import * as ConfigProvider from 'effect/ConfigProvider';
 import * as Effect from 'effect/Effect';
+import * as FiberRef from 'effect/FiberRef';
 import * as Layer from 'effect/Layer';
+import * as Logger from 'effect/Logger';
+import * as LogLevel from 'effect/LogLevel';
 import * as Context from 'effect/Context';
 import * as ManagedRuntime from 'effect/ManagedRuntime';
 import React from 'react';
@@ -161,4 +170,144 @@ describe('RuntimeProvider and useRuntimeContext', () => {
     expect(value.testResult).toBe('test');
     expect(value.queryResult).toEqual(['Result for: SELECT * FROM users']);
   });
+
+  it('should expose runtime services to useService', () => {
+    const runtime = ManagedRuntime.make(
+      Layer.succeed(TestService, { testValue: 'from managed runtime' })
+    );
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <RuntimeProvider runtime={runtime}>{children}</RuntimeProvider>
+    );
+
+    const { result } = renderHook(() => useService(TestService), { wrapper });
+
+    expect(result.current?.testValue).toBe('from managed runtime');
+  });
+
+  it('should run effects of hooks with the runtime services', async () => {
+    const runtime = ManagedRuntime.make(
+      Layer.succeed(TestService, { testValue: 'query value' })
+    );
+
+    function TestComponent() {
+      const { data } = useEffectQuery(
+        Effect.map(Effect.serviceOption(TestService), (service) =>
+          service._tag === 'Some' ? service.value.testValue : 'missing'
+        )
+      );
+      return <div>data:{data}</div>;
+    }
+
+    render(
+      <RuntimeProvider runtime={runtime}>
+        <TestComponent />
+      </RuntimeProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('data:query value')).toBeInTheDocument();
+    });
+  });
+
+  it('should show fallback until an async runtime is built', async () => {
+    const runtime = ManagedRuntime.make(
+      Layer.effect(
+        TestService,
+        Effect.as(Effect.sleep('20 millis'), { testValue: 'async runtime' })
+      )
+    );
+
+    function TestComponent() {
+      const service = useService(TestService);
+      return <div>value:{service?.testValue}</div>;
+    }
+
+    render(
+      <RuntimeProvider runtime={runtime} fallback={<div>building</div>}>
+        <TestComponent />
+      </RuntimeProvider>
+    );
+
+    expect(screen.getByText('building')).toBeInTheDocument();
+
+    await waitFor(() => {
+      expect(screen.getByText('value:async runtime')).toBeInTheDocument();
+    });
+  });
+
+  it('should combine services with an outer EffectProvider', () => {
+    class OuterService extends Context.Tag('OuterService')<
+      OuterService,
+      { readonly name: string }
+    >() {}
+
+    const runtime = ManagedRuntime.make(
+      Layer.succeed(TestService, { testValue: 'inner' })
+    );
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <EffectProvider layer={Layer.succeed(OuterService, { name: 'outer' })}>
+        <RuntimeProvider runtime={runtime}>{children}</RuntimeProvider>
+      </EffectProvider>
+    );
+
+    const { result } = renderHook(
+      () => [useService(OuterService)?.name, useService(TestService)?.testValue],
+      { wrapper }
+    );
+
+    expect(result.current).toEqual(['outer', 'inner']);
+  });
+
+  it('should keep the FiberRefs of ancestor providers and apply its own on top', async () => {
+    class OuterService extends Context.Tag('OuterService')<
+      OuterService,
+      { readonly name: string }
+    >() {}
+
+    const outerLayer = Layer.merge(
+      Layer.setConfigProvider(ConfigProvider.fromMap(new Map([['API_URL', 'outer']]))),
+      Layer.succeed(OuterService, { name: 'outer' })
+    );
+    const runtime = ManagedRuntime.make(
+      Layer.merge(
+        Logger.minimumLogLevel(LogLevel.Error),
+        Layer.succeed(TestService, { testValue: 'inner' })
+      )
+    );
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <EffectProvider layer={outerLayer}>
+        <RuntimeProvider runtime={runtime}>
+          <ProvideService tag={TestService} service={{ testValue: 'provided' }}>
+            {children}
+          </ProvideService>
+        </RuntimeProvider>
+      </EffectProvider>
+    );
+
+    const { result } = renderHook(
+      () =>
+        useEffectQuery(
+          Effect.all([
+            Config.string('API_URL'),
+            FiberRef.get(FiberRef.currentMinimumLogLevel),
+            OuterService,
+            TestService,
+          ])
+        ),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.loading).toBe(false);
+    });
+    const [url, level, outer, test] = result.current.data!;
+    expect(url).toBe('outer');
+    expect(level).toBe(LogLevel.Error);
+    expect(outer.name).toBe('outer');
+    expect(test.testValue).toBe('provided');
+    await runtime.dispose();
+  });
 });
@@ -1,5 +1,17 @@
-import React, { createContext, useContext, ReactNode, ReactElement } from 'react';
+import React, {
+  createContext,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  ReactNode,
+  ReactElement,
+} from 'react';
+import * as Effect from 'effect/Effect';
+import * as Exit from 'effect/Exit';
 import * as ManagedRuntime from 'effect/ManagedRuntime';
+import * as Runtime from 'effect/Runtime';
+import { EffectRuntimeContext, extendRuntime } from './useRuntime';
 
 /**
  * React context for ManagedRuntime
@@ -14,22 +26,97 @@ const RuntimeContext = createContext<
 export interface RuntimeProviderProps<R = any, E = never> {
   runtime: ManagedRuntime.ManagedRuntime<R, E> | null;
   children: ReactNode;
+  fallback?: ReactNode;
+}
+
+/**
+ * Resolve the Runtime of a ManagedRuntime without waiting when its layer
+ * can be built synchronously (or has already been built)
+ */
+function resolveRuntimeSync<R, E>(
+  managedRuntime: ManagedRuntime.ManagedRuntime<R, E>
+): Runtime.Runtime<R> | null {
+  const exit = managedRuntime.runSyncExit(Effect.runtime<R>());
+  return Exit.isSuccess(exit) ? exit.value : null;
 }
 
 /**
  * RuntimeProvider component
  * Provides a ManagedRuntime to its children via React context
  *
+ * The services of the runtime are also added to the runtime used by
+ * `useService` and the effect-running hooks, on top of those provided by
+ * ancestor providers; like EffectProvider, the FiberRefs its layer sets
+ * apply on top of those of ancestor providers. Children render once the runtime has been built;
+ * `fallback` is shown while an asynchronous layer is being built.
+ *
  * @param props - Provider props with runtime and children
  * @returns React element
  */
 export function RuntimeProvider<R = any, E = never>({
   runtime,
   children,
+  fallback = null,
 }: RuntimeProviderProps<R, E>): ReactElement {
+  const parentRuntime = useContext(EffectRuntimeContext);
+
+  const syncRuntime = useMemo(
+    () => (runtime ? resolveRuntimeSync(runtime) : null),
+    [runtime]
+  );
+
+  const [resolved, setResolved] = useState<{
+    managedRuntime: ManagedRuntime.ManagedRuntime<R, E>;
+    runtime: Runtime.Runtime<R> | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!runtime || syncRuntime) return;
+
+    let cancelled = false;
+
+    runtime.runtime().then(
+      (rt) => {
+        if (!cancelled) setResolved({ managedRuntime: runtime, runtime: rt });
+      },
+      () => {
+        // The runtime's own run methods surface the build error
+        if (!cancelled) setResolved({ managedRuntime: runtime, runtime: null });
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [runtime, syncRuntime]);
+
+  const pending =
+    runtime !== null &&
+    syncRuntime === null &&
+    resolved?.managedRuntime !== runtime;
+
+  const managedServices =
+    syncRuntime ??
+    (resolved?.managedRuntime === runtime ? resolved.runtime : null);
+
+  const effectRuntime = useMemo(() => {
+    if (!managedServices) {
+      return parentRuntime;
+    }
+
+    // The managed runtime is built on the default runtime
+    return extendRuntime(parentRuntime, managedServices);
+  }, [managedServices, parentRuntime]);
+
+  if (pending) {
+    return <>{fallback}</>;
+  }
+
   return (
     <RuntimeContext.Provider value={runtime}>
-      {children}
+      <EffectRuntimeContext.Provider value={effectRuntime}>
+        {children}
+      </EffectRuntimeContext.Provider>
     </RuntimeContext.Provider>
   );
 }
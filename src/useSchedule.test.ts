@@ -4,6 +4,9 @@ import { useSchedule } from './useSchedule';
 import * as Effect from 'effect/Effect';
 import * as Schedule from 'effect/Schedule';
 import * as Duration from 'effect/Duration';
+import * as Fiber from 'effect/Fiber';
+import * as TestClock from 'effect/TestClock';
+import * as TestContext from 'effect/TestContext';
 
 describe('useSchedule', () => {
   afterEach(() => {
@@ -340,4 +343,144 @@ describe('useSchedule', () => {
     const value = await Effect.runPromise(wrappedEffect);
     expect(value).toBe(42);
   });
+
+  describe('stats', () => {
+    // Fails the given number of times, then succeeds with the attempt number
+    const failTimes = (failures: number) => {
+      let attempt = 0;
+      return Effect.suspend(() =>
+        ++attempt <= failures ? Effect.fail(new Error(`failure ${attempt}`)) : Effect.succeed(attempt)
+      );
+    };
+
+    it('should report the delays and output computed by the schedule', async () => {
+      const onRetry = vi.fn();
+      const onComplete = vi.fn();
+      const { result } = renderHook(() =>
+        useSchedule(Schedule.exponential('10 millis'), { onRetry, onComplete })
+      );
+
+      await Effect.runPromise(result.current.applySchedule(failTimes(2)));
+
+      await waitFor(() => {
+        expect(result.current.stats.attempts).toBe(2);
+      });
+      expect(Duration.toMillis(result.current.stats.lastDelay!)).toBe(20);
+      expect(Duration.toMillis(result.current.stats.output!)).toBe(20);
+      expect(onRetry).toHaveBeenNthCalledWith(1, 1, Duration.millis(10));
+      expect(onRetry).toHaveBeenNthCalledWith(2, 2, Duration.millis(20));
+      expect(onComplete).toHaveBeenCalledWith(2, Duration.millis(20));
+    });
+
+    it('should pass null as output when the schedule never recurred', async () => {
+      const onComplete = vi.fn();
+      const { result } = renderHook(() =>
+        useSchedule(Schedule.recurs(3), { onComplete })
+      );
+
+      await Effect.runPromise(result.current.applySchedule(Effect.succeed(42)));
+
+      expect(onComplete).toHaveBeenCalledWith(0, null);
+    });
+
+    it('should report the next run and elapsed time from the Clock', async () => {
+      const { result } = renderHook(() => useSchedule(Schedule.spaced('1 minute')));
+
+      const program = Effect.gen(function* () {
+        const fiber = yield* Effect.fork(result.current.applySchedule(failTimes(1)));
+        yield* TestClock.adjust('30 seconds');
+        yield* TestClock.adjust('30 seconds');
+        return yield* Fiber.join(fiber);
+      });
+
+      const value = await Effect.runPromise(
+        program.pipe(Effect.provide(TestContext.TestContext))
+      );
+
+      expect(value).toBe(2);
+      await waitFor(() => {
+        expect(Duration.toMillis(result.current.stats.elapsed)).toBe(60_000);
+      });
+      expect(Duration.toMillis(result.current.stats.lastDelay!)).toBe(60_000);
+      expect(result.current.stats.nextRunAt).toBeNull();
+    });
+
+    it('should not retry defects', async () => {
+      const effect = vi.fn(() => Effect.die('boom'));
+      const { result } = renderHook(() => useSchedule(Schedule.recurs(3)));
+
+      const exit = await Effect.runPromiseExit(
+        result.current.applySchedule(Effect.suspend(effect))
+      );
+
+      expect(exit._tag).toBe('Failure');
+      expect(effect).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('repeat mode', () => {
+    it('should repeat successes and resolve with the last value', async () => {
+      let runs = 0;
+      const onComplete = vi.fn();
+      const { result } = renderHook(() =>
+        useSchedule(Schedule.recurs(2), { mode: 'repeat', onComplete })
+      );
+
+      const value = await Effect.runPromise(
+        result.current.applySchedule(Effect.sync(() => ++runs))
+      );
+
+      expect(value).toBe(3);
+      expect(onComplete).toHaveBeenCalledWith(2, 2);
+      await waitFor(() => {
+        expect(result.current.stats.attempts).toBe(2);
+      });
+    });
+
+    it('should feed the values of the effect to the schedule', async () => {
+      let runs = 0;
+      const { result } = renderHook(() =>
+        useSchedule(Schedule.recurWhile((n: number) => n < 3), { mode: 'repeat' })
+      );
+
+      const value = await Effect.runPromise(
+        result.current.applySchedule(Effect.sync(() => ++runs))
+      );
+
+      expect(value).toBe(3);
+    });
+
+    it('should stop repeating on failure', async () => {
+      let runs = 0;
+      const onFailure = vi.fn();
+      const { result } = renderHook(() =>
+        useSchedule(Schedule.recurs(5), { mode: 'repeat', onFailure })
+      );
+
+      const effect = Effect.suspend(() =>
+        ++runs === 2 ? Effect.fail('stopped') : Effect.succeed(runs)
+      );
+      const exit = await Effect.runPromiseExit(result.current.applySchedule(effect));
+
+      expect(exit._tag).toBe('Failure');
+      expect(runs).toBe(2);
+      expect(onFailure).toHaveBeenCalledWith('stopped');
+    });
+  });
+
+  it('should only accept effects whose errors or values the schedule accepts', () => {
+    const { result: retry } = renderHook(() =>
+      useSchedule(Schedule.recurWhile((error: string) => error === 'retry'))
+    );
+    retry.current.applySchedule(Effect.fail('retry'));
+    // @ts-expect-error the schedule does not accept numbers as errors
+    retry.current.applySchedule(Effect.fail(1));
+
+    const { result: repeat } = renderHook(() =>
+      useSchedule(Schedule.recurWhile((n: number) => n < 3), { mode: 'repeat' })
+    );
+    repeat.current.applySchedule(Effect.succeed(1));
+    // @ts-expect-error the schedule does not accept strings as values
+    repeat.current.applySchedule(Effect.succeed('done'));
+  });
 });
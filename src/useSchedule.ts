@@ -1,91 +1,216 @@
 import { useState, useCallback, useRef } from 'react';
 import * as Effect from 'effect/Effect';
+import * as Cause from 'effect/Cause';
+import * as Clock from 'effect/Clock';
+import * as Exit from 'effect/Exit';
+import * as Option from 'effect/Option';
 import * as Schedule from 'effect/Schedule';
+import * as ScheduleDecision from 'effect/ScheduleDecision';
+import * as ScheduleIntervals from 'effect/ScheduleIntervals';
 import * as Duration from 'effect/Duration';
 
-interface ScheduleStats {
+/**
+ * What useSchedule recurs on
+ *
+ * - `retry`: run the effect again after each failure, feeding the error to the schedule
+ * - `repeat`: run the effect again after each success, feeding the value to the schedule
+ */
+export type ScheduleMode = 'retry' | 'repeat';
+
+/**
+ * Progress of the latest run of a scheduled effect
+ *
+ * `lastDelay` and `output` are the delay and output computed by the schedule
+ * for the latest recurrence; `nextRunAt` is set while waiting for the next
+ * one. `elapsed` is the time since the run started, as of the latest update.
+ */
+export interface ScheduleStats<Out> {
   attempts: number;
   lastDelay: Duration.Duration | null;
+  output: Out | null;
+  elapsed: Duration.Duration;
+  nextRunAt: Date | null;
 }
 
-export function useSchedule<A, Out = A>(
-  schedule: Schedule.Schedule<Out, A, never>,
-  options?: {
-    onRetry?: (attempt: number, delay: Duration.Duration) => void;
-    onComplete?: (attempts: number, output: Out) => void;
-    onFailure?: (error: any) => void;
-  }
-): {
-  schedule: Schedule.Schedule<Out, A, never>;
-  applySchedule: <E, R>(
-    effect: Effect.Effect<A, E, R>
-  ) => Effect.Effect<A, E, R>;
+const initialStats: ScheduleStats<never> = {
+  attempts: 0,
+  lastDelay: null,
+  output: null,
+  elapsed: Duration.zero,
+  nextRunAt: null,
+};
+
+/**
+ * Options for useSchedule
+ */
+export interface ScheduleOptions<Out> {
+  onRetry?: (_attempt: number, _delay: Duration.Duration) => void;
+  onComplete?: (_attempts: number, _output: Out | null) => void;
+  onFailure?: (_error: any) => void;
+}
+
+/**
+ * applySchedule in `retry` mode, for effects whose errors the schedule accepts
+ */
+export type RetrySchedule<In> = <A, E extends In, R>(
+  _effect: Effect.Effect<A, E, R>
+) => Effect.Effect<A, E, R>;
+
+/**
+ * applySchedule in `repeat` mode, for effects whose values the schedule accepts
+ */
+export type RepeatSchedule<In> = <A extends In, E, R>(
+  _effect: Effect.Effect<A, E, R>
+) => Effect.Effect<A, E, R>;
+
+/**
+ * Result of useSchedule
+ */
+export interface ScheduleResult<In, Out, Apply> {
+  schedule: Schedule.Schedule<Out, In, never>;
+  applySchedule: Apply;
   reset: () => void;
-  stats: ScheduleStats;
-} {
-  const [stats, setStats] = useState<ScheduleStats>({
-    attempts: 0,
-    lastDelay: null,
-  });
+  stats: ScheduleStats<Out>;
+}
+
+/**
+ * Retry or repeat effects with a Schedule and track their progress
+ *
+ * `applySchedule` steps the schedule itself, so `stats` reports the delays
+ * and outputs it actually computed, and times come from the Clock of the
+ * runtime running the effect. `onRetry` is called before each recurrence,
+ * `onComplete` with the number of recurrences and the latest output of the
+ * schedule (`null` when it never recurred).
+ *
+ * In `retry` mode the effect fails with its last error once the schedule is
+ * done; in `repeat` mode it succeeds with its last value. Defects and
+ * interruptions are never retried. The errors (`retry`) or values (`repeat`)
+ * of the effect must be inputs of the schedule.
+ *
+ * @param schedule - The Schedule of the recurrences
+ * @param options - Mode and callbacks
+ * @returns Object containing the schedule, applySchedule, reset, and the stats of the latest run
+ */
+export function useSchedule<In, Out = In>(
+  schedule: Schedule.Schedule<Out, In, never>,
+  options: ScheduleOptions<Out> & { mode: 'repeat' }
+): ScheduleResult<In, Out, RepeatSchedule<In>>;
+// eslint-disable-next-line no-redeclare
+export function useSchedule<In, Out = In>(
+  schedule: Schedule.Schedule<Out, In, never>,
+  options?: ScheduleOptions<Out> & { mode?: 'retry' }
+): ScheduleResult<In, Out, RetrySchedule<In>>;
+// eslint-disable-next-line no-redeclare
+export function useSchedule<In, Out = In>(
+  schedule: Schedule.Schedule<Out, In, never>,
+  options?: ScheduleOptions<Out> & { mode?: ScheduleMode }
+): ScheduleResult<In, Out, RetrySchedule<In> | RepeatSchedule<In>> {
+  const [stats, setStats] = useState<ScheduleStats<Out>>(initialStats);
 
   const scheduleRef = useRef(schedule);
   const optionsRef = useRef(options);
-  const retryCountRef = useRef(0);
 
   scheduleRef.current = schedule;
   optionsRef.current = options;
 
   const reset = useCallback(() => {
-    setStats({ attempts: 0, lastDelay: null });
-    retryCountRef.current = 0;
+    setStats(initialStats);
   }, []);
 
-  const applySchedule = useCallback(
-    <E, R>(effect: Effect.Effect<A, E, R>): Effect.Effect<A, E, R> => {
-      retryCountRef.current = 0;
-
-      const retryableEffect = Effect.suspend(() => {
-        return effect.pipe(
-          Effect.tapError(() =>
-            Effect.sync(() => {
-              const currentAttempt = retryCountRef.current;
-              retryCountRef.current++;
-
-              // Track attempts (increment happens after first failure)
-              const delay = Duration.millis(Math.pow(2, currentAttempt) * 10); // Approximate delay
-              setStats({
-                attempts: retryCountRef.current,
-                lastDelay: delay,
-              });
-
-              if (currentAttempt > 0) {
-                optionsRef.current?.onRetry?.(retryCountRef.current, delay);
+  // Run the effect until the schedule is done; `inputOf` picks the input of
+  // the schedule from an Exit, or none when the Exit ends the run
+  const recur = useCallback(
+    <A, E, R>(
+      effect: Effect.Effect<A, E, R>,
+      inputOf: (_exit: Exit.Exit<A, E>) => Option.Option<In>
+    ): Effect.Effect<A, E, R> =>
+      Effect.gen(function* () {
+        const schedule = scheduleRef.current;
+        const startedAt = yield* Clock.currentTimeMillis;
+        setStats(initialStats);
+
+        let state = schedule.initial;
+        let attempts = 0;
+        let output: Option.Option<Out> = Option.none();
+
+        while (true) {
+          const exit = yield* Effect.exit(effect);
+
+          const input = inputOf(exit);
+          if (Option.isNone(input)) {
+            if (Exit.isSuccess(exit)) {
+              const now = yield* Clock.currentTimeMillis;
+              setStats((prev) => ({ ...prev, elapsed: Duration.millis(now - startedAt) }));
+              optionsRef.current?.onComplete?.(attempts, Option.getOrNull(output));
+            } else {
+              const failure = Cause.failureOption(exit.cause);
+              if (Option.isSome(failure)) {
+                optionsRef.current?.onFailure?.(failure.value);
               }
-            })
-          )
-        );
-      });
-
-      return retryableEffect.pipe(
-        Effect.retry(scheduleRef.current as any),
-        Effect.tap((result) =>
-          Effect.sync(() => {
-            optionsRef.current?.onComplete?.(retryCountRef.current, result as Out);
-          })
-        ),
-        Effect.tapError((error) =>
-          Effect.sync(() => {
-            optionsRef.current?.onFailure?.(error);
-          })
-        )
-      ) as Effect.Effect<A, E, R>;
-    },
+            }
+            return yield* exit;
+          }
+
+          const now = yield* Clock.currentTimeMillis;
+          const [nextState, out, decision] = yield* schedule.step(now, input.value, state);
+          state = nextState;
+          output = Option.some(out);
+
+          if (ScheduleDecision.isDone(decision)) {
+            setStats((prev) => ({
+              ...prev,
+              output: out,
+              elapsed: Duration.millis(now - startedAt),
+              nextRunAt: null,
+            }));
+
+            if (Exit.isFailure(exit)) {
+              optionsRef.current?.onFailure?.(input.value);
+            } else {
+              optionsRef.current?.onComplete?.(attempts, out);
+            }
+            return yield* exit;
+          }
+
+          const delay = Duration.millis(
+            Math.max(0, ScheduleIntervals.start(decision.intervals) - now)
+          );
+          attempts++;
+          setStats({
+            attempts,
+            lastDelay: delay,
+            output: out,
+            elapsed: Duration.millis(now - startedAt),
+            nextRunAt: new Date(now + Duration.toMillis(delay)),
+          });
+          optionsRef.current?.onRetry?.(attempts, delay);
+
+          yield* Effect.sleep(delay);
+          setStats((prev) => ({ ...prev, nextRunAt: null }));
+        }
+      }),
     []
   );
 
+  // Failures feed their error to the schedule; defects and interruptions end the run
+  const retry = useCallback<RetrySchedule<In>>(
+    (effect) =>
+      recur(effect, (exit) =>
+        Exit.isFailure(exit) ? Cause.failureOption(exit.cause) : Option.none()
+      ),
+    [recur]
+  );
+
+  // Successes feed their value to the schedule; failures end the run
+  const repeat = useCallback<RepeatSchedule<In>>(
+    (effect) =>
+      recur(effect, (exit) => (Exit.isSuccess(exit) ? Option.some(exit.value) : Option.none())),
+    [recur]
+  );
+
   return {
     schedule: scheduleRef.current,
-    applySchedule,
+    applySchedule: options?.mode === 'repeat' ? repeat : retry,
     reset,
     stats,
   };
@@ -1,9 +1,17 @@
 import { describe, it, expect, afterEach } from 'vitest';
-import { renderHook, cleanup } from '@testing-library/react';
+import { renderHook, render, cleanup, screen, waitFor } from '@testing-library/react';
 import { useService, EffectProvider } from './useService';
+import { ProvideService } from './useProvideService';
+import { RuntimeProvider } from './useRuntimeContext';
+import { useEffectQuery } from './useEffectQuery';
+import * as ManagedRuntime from 'effect/ManagedRuntime';
+import * as Config from 'effect/Config';
+import * as ConfigProvider from 'effect/ConfigProvider';
 import * as Context from 'effect/Context';
 import * as Effect from 'effect/Effect';
 import * as Layer from 'effect/Layer';
+import * as Cause from 'effect/Cause';
+import * as Option from 'effect/Option';
 import React from 'react';
 
 // Define test services
@@ -137,4 +145,276 @@ describe('useService', () => {
 
     expect(result.current?.getValue()).toBe('effect service');
   });
+
+  it('should build async layers and show the fallback meanwhile', async () => {
+    const AsyncLayer = Layer.effect(
+      TestService,
+      Effect.gen(function* () {
+        yield* Effect.sleep('20 millis');
+        return { getValue: () => 'async service' };
+      })
+    );
+
+    function Consumer() {
+      const service = useService(TestService);
+      return <div>{service?.getValue()}</div>;
+    }
+
+    render(
+      <EffectProvider layer={AsyncLayer} fallback={<div>building</div>}>
+        <Consumer />
+      </EffectProvider>
+    );
+
+    expect(screen.getByText('building')).toBeInTheDocument();
+
+    await waitFor(() => {
+      expect(screen.getByText('async service')).toBeInTheDocument();
+    });
+  });
+
+  it('should keep acquired resources open until unmount', async () => {
+    const events: string[] = [];
+
+    const ScopedLayer = Layer.scoped(
+      TestService,
+      Effect.acquireRelease(
+        Effect.sync(() => {
+          events.push('acquire');
+          return { getValue: () => 'scoped' };
+        }),
+        () => Effect.sync(() => events.push('release'))
+      )
+    );
+
+    function Consumer() {
+      const service = useService(TestService);
+      return <div>{service?.getValue()}</div>;
+    }
+
+    const { unmount } = render(
+      <EffectProvider layer={ScopedLayer}>
+        <Consumer />
+      </EffectProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('scoped')).toBeInTheDocument();
+    });
+    expect(events).toEqual(['acquire']);
+
+    unmount();
+
+    await waitFor(() => {
+      expect(events).toEqual(['acquire', 'release']);
+    });
+  });
+
+  it('should release the previous layer when the layer changes', async () => {
+    const events: string[] = [];
+
+    const makeLayer = (name: string) =>
+      Layer.scoped(
+        TestService,
+        Effect.acquireRelease(
+          Effect.sync(() => {
+            events.push(`acquire:${name}`);
+            return { getValue: () => name };
+          }),
+          () => Effect.sync(() => events.push(`release:${name}`))
+        )
+      );
+
+    const first = makeLayer('first');
+    const second = makeLayer('second');
+
+    function Consumer() {
+      const service = useService(TestService);
+      return <div>value:{service?.getValue()}</div>;
+    }
+
+    const { rerender } = render(
+      <EffectProvider layer={first}>
+        <Consumer />
+      </EffectProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('value:first')).toBeInTheDocument();
+    });
+
+    rerender(
+      <EffectProvider layer={second}>
+        <Consumer />
+      </EffectProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('value:second')).toBeInTheDocument();
+    });
+    expect(events).toEqual(['acquire:first', 'release:first', 'acquire:second']);
+  });
+
+  it('should render errorFallback with the cause when the layer fails', async () => {
+    const FailingLayer = Layer.fail('boom');
+
+    render(
+      <EffectProvider
+        layer={FailingLayer}
+        errorFallback={(cause) => (
+          <div>
+            failed:{Option.getOrNull(Cause.failureOption(cause))}
+          </div>
+        )}
+      >
+        <div>children</div>
+      </EffectProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('failed:boom')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('children')).not.toBeInTheDocument();
+  });
+
+  it('should build a nested layer using services from the parent provider', async () => {
+    const OuterLayer = Layer.succeed(TestService, { getValue: () => '21' });
+    const InnerLayer = Layer.effect(
+      AnotherService,
+      Effect.map(TestService, (test) => ({
+        getNumber: () => Number(test.getValue()) * 2,
+      }))
+    );
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <EffectProvider layer={OuterLayer}>
+        <EffectProvider layer={InnerLayer}>{children}</EffectProvider>
+      </EffectProvider>
+    );
+
+    const { result } = renderHook(
+      () => ({
+        test: useService(TestService),
+        another: useService(AnotherService),
+      }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.another?.getNumber()).toBe(42);
+    });
+    expect(result.current.test?.getValue()).toBe('21');
+  });
+
+  it('should see services from every ancestor provider', async () => {
+    class ThirdService extends Context.Tag('ThirdService')<
+      ThirdService,
+      { readonly name: string }
+    >() {}
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <EffectProvider layer={Layer.succeed(TestService, { getValue: () => 'a' })}>
+        <EffectProvider layer={Layer.succeed(AnotherService, { getNumber: () => 1 })}>
+          <EffectProvider layer={Layer.succeed(ThirdService, { name: 'c' })}>
+            {children}
+          </EffectProvider>
+        </EffectProvider>
+      </EffectProvider>
+    );
+
+    const { result } = renderHook(
+      () => [
+        useService(TestService)?.getValue(),
+        useService(AnotherService)?.getNumber(),
+        useService(ThirdService)?.name,
+      ],
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current).toEqual(['a', 1, 'c']);
+    });
+  });
+
+  it('should apply the FiberRefs set by the layer to effects run below it', async () => {
+    const configLayer = Layer.merge(
+      Layer.setConfigProvider(
+        ConfigProvider.fromMap(new Map([['API_URL', 'https://api.test']]))
+      ),
+      Layer.succeed(AnotherService, { getNumber: () => 1 })
+    );
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <EffectProvider layer={Layer.succeed(TestService, { getValue: () => 'outer' })}>
+        <EffectProvider layer={configLayer}>{children}</EffectProvider>
+      </EffectProvider>
+    );
+
+    const { result } = renderHook(
+      () => ({
+        query: useEffectQuery(Config.string('API_URL')),
+        test: useService(TestService),
+      }),
+      { wrapper }
+    );
+
+    await waitFor(() => {
+      expect(result.current.query.data).toBe('https://api.test');
+    });
+    expect(result.current.test?.getValue()).toBe('outer');
+  });
+
+  it('should fail a nested layer whose requirements are not provided', async () => {
+    const InnerLayer = Layer.effect(
+      AnotherService,
+      Effect.map(TestService, () => ({ getNumber: () => 0 }))
+    );
+
+    render(
+      <EffectProvider
+        layer={InnerLayer}
+        errorFallback={(cause) => (
+          <div>{Cause.isDie(cause) ? 'missing-service' : 'other'}</div>
+        )}
+      >
+        <div>children</div>
+      </EffectProvider>
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('missing-service')).toBeInTheDocument();
+    });
+  });
+
+  it('should resolve services across all provider kinds', () => {
+    class ThirdService extends Context.Tag('ThirdService')<
+      ThirdService,
+      { readonly name: string }
+    >() {}
+
+    const runtime = ManagedRuntime.make(
+      Layer.succeed(AnotherService, { getNumber: () => 7 })
+    );
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <EffectProvider layer={Layer.succeed(TestService, { getValue: () => 'layer' })}>
+        <RuntimeProvider runtime={runtime}>
+          <ProvideService tag={ThirdService} service={{ name: 'provided' }}>
+            {children}
+          </ProvideService>
+        </RuntimeProvider>
+      </EffectProvider>
+    );
+
+    const { result } = renderHook(
+      () => [
+        useService(TestService)?.getValue(),
+        useService(AnotherService)?.getNumber(),
+        useService(ThirdService)?.name,
+      ],
+      { wrapper }
+    );
+
+    expect(result.current).toEqual(['layer', 7, 'provided']);
+  });
 });
@@ -1,72 +1,167 @@
-import React, { createContext, useContext, useMemo } from 'react';
+import React, { useContext, useEffect, useMemo, useState } from 'react';
 import * as Context from 'effect/Context';
 import * as Layer from 'effect/Layer';
 import * as Runtime from 'effect/Runtime';
 import * as Effect from 'effect/Effect';
-import { getOrCreateServiceContext } from './useProvideService';
-
-// React Context to hold the Effect Runtime
-const EffectRuntimeContext = createContext<Runtime.Runtime<any> | null>(null);
+import * as Exit from 'effect/Exit';
+import * as Cause from 'effect/Cause';
+import * as Fiber from 'effect/Fiber';
+import * as Scope from 'effect/Scope';
+import * as Scheduler from 'effect/Scheduler';
+import * as Option from 'effect/Option';
+import { EffectRuntimeContext, extendRuntime } from './useRuntime';
 
 // Export for use in other hooks
 export { EffectRuntimeContext };
 
-export interface EffectProviderProps {
-  layer: Layer.Layer<any, never, never>;
+type EffectProviderState<E> =
+  | { _tag: 'Loading' }
+  | {
+      _tag: 'Ready';
+      layer: Layer.Layer<any, any, any>;
+      parent: Runtime.Runtime<any> | null;
+      runtime: Runtime.Runtime<any>;
+    }
+  | {
+      _tag: 'Failure';
+      layer: Layer.Layer<any, any, any>;
+      parent: Runtime.Runtime<any> | null;
+      cause: Cause.Cause<E>;
+    };
+
+export interface EffectProviderProps<E = never, RIn = never> {
+  layer: Layer.Layer<any, E, RIn>;
   children: React.ReactNode;
+  fallback?: React.ReactNode;
+  errorFallback?: (_cause: Cause.Cause<E>) => React.ReactNode;
 }
 
-export function EffectProvider({ layer, children }: EffectProviderProps) {
+/**
+ * Fork an effect, running its synchronous part before returning so that
+ * synchronous layers are ready (and released) without waiting for a tick
+ */
+function forkEager<A, E, R>(
+  runtime: Runtime.Runtime<R>,
+  effect: Effect.Effect<A, E, R>
+): Fiber.RuntimeFiber<A, E> {
+  const scheduler = new Scheduler.SyncScheduler();
+  const fiber = Runtime.runFork(runtime)(effect, { scheduler });
+  scheduler.flush();
+  return fiber;
+}
+
+/**
+ * Provide the services of a Layer to the component tree
+ *
+ * The layer is built asynchronously in a Scope that stays open for as long as
+ * the provider is mounted. The scope is closed, releasing every acquired
+ * resource, when the provider unmounts or receives a different layer.
+ *
+ * Providers compose when nested: the layer's requirements are satisfied by the
+ * runtime of the nearest parent provider, and descendants see the services of
+ * every ancestor, with inner providers taking precedence. Layers changing
+ * FiberRefs, such as `Layer.setConfigProvider` or `Logger.replace`, apply to
+ * the effects run below the provider.
+ *
+ * @param layer - The Layer to build
+ * @param fallback - Rendered while the layer is being built
+ * @param errorFallback - Rendered with the failure Cause if the layer fails to build
+ */
+export function EffectProvider<E = never, RIn = never>({
+  layer,
+  children,
+  fallback = null,
+  errorFallback,
+}: EffectProviderProps<E, RIn>) {
   const parentRuntime = useContext(EffectRuntimeContext);
+  const [state, setState] = useState<EffectProviderState<E>>({
+    _tag: 'Loading',
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+    const scope = Effect.runSync(Scope.make());
 
-  const runtime = useMemo(() => {
-    // Build the layer into a runtime
-    const runtimeLayer = Layer.toRuntime(layer);
-    const newRuntime = Effect.runSync(
-      Effect.scoped(runtimeLayer) as Effect.Effect<Runtime.Runtime<any>, never, never>
+    const runtime = (parentRuntime ?? Runtime.defaultRuntime) as Runtime.Runtime<RIn>;
+
+    // Build the layer on the parent runtime, in a scope that outlives the
+    // build; the FiberRefs it sets (config provider, loggers...) are kept
+    const fiber = forkEager(
+      runtime,
+      Effect.flatMap(Effect.runtime<RIn>(), (base) =>
+        Effect.map(Scope.extend(Layer.toRuntime(layer), scope), (built) =>
+          extendRuntime(parentRuntime, built, base)
+        )
+      )
     );
 
-    return newRuntime;
+    fiber.addObserver((exit) => {
+      if (cancelled) return;
+
+      if (Exit.isSuccess(exit)) {
+        setState({
+          _tag: 'Ready',
+          layer,
+          parent: parentRuntime,
+          runtime: exit.value,
+        });
+      } else {
+        setState({
+          _tag: 'Failure',
+          layer,
+          parent: parentRuntime,
+          cause: exit.cause,
+        });
+      }
+    });
+
+    // Cleanup: stop a pending build and release acquired resources
+    return () => {
+      cancelled = true;
+      forkEager(
+        Runtime.defaultRuntime,
+        Effect.suspend(() =>
+          // Interrupting a finished fiber would needlessly wait for a tick
+          fiber.unsafePoll() === null ? Fiber.interrupt(fiber) : Effect.void
+        ).pipe(Effect.zipRight(Scope.close(scope, Exit.void)))
+      );
+    };
   }, [layer, parentRuntime]);
 
+  // A state left over from a previous layer or parent counts as loading
+  if (
+    state._tag === 'Loading' ||
+    state.layer !== layer ||
+    state.parent !== parentRuntime
+  ) {
+    return <>{fallback}</>;
+  }
+
+  if (state._tag === 'Failure') {
+    return <>{errorFallback ? errorFallback(state.cause) : null}</>;
+  }
+
   return (
-    <EffectRuntimeContext.Provider value={runtime}>
+    <EffectRuntimeContext.Provider value={state.runtime}>
       {children}
     </EffectRuntimeContext.Provider>
   );
 }
 
+/**
+ * Get a service from the nearest EffectProvider, RuntimeProvider or ProvideService
+ *
+ * @param tag - The Tag of the service
+ * @returns The service, or null if no ancestor provides it
+ */
 export function useService<I, S>(tag: Context.Tag<I, S>): S | null {
   const runtime = useContext(EffectRuntimeContext);
 
-  // First, try to get service from ProvideService context
-  const ServiceContext = getOrCreateServiceContext(tag);
-  const providedService = useContext(ServiceContext);
-
-  // If service is provided via ProvideService, return it
-  if (providedService !== null) {
-    return providedService;
-  }
-
-  // Otherwise, try to get from EffectProvider runtime
-  const service = useMemo(() => {
+  return useMemo(() => {
     if (!runtime) {
       return null;
     }
 
-    // Try to get the service from the runtime context
-    try {
-      const ctx = runtime.context as Context.Context<any>;
-      return Context.getOption(ctx, tag);
-    } catch {
-      return null;
-    }
+    return Option.getOrNull(Context.getOption(runtime.context, tag));
   }, [runtime, tag]);
-
-  // Return the service value if it exists
-  if (service && '_tag' in service && service._tag === 'Some') {
-    return service.value;
-  }
-
-  return null;
 }
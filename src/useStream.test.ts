@@ -156,6 +156,20 @@ describe('useStream', () => {
     expect(onError).toHaveBeenCalledTimes(1);
   });
 
+  it('should set defect and stop loading when the stream dies', async () => {
+    const testDefect = new Error('stream defect');
+    const stream = Stream.die(testDefect);
+    const { result } = renderHook(() => useStream(stream));
+
+    await waitFor(() => {
+      expect(result.current.defect).toBe(testDefect);
+    });
+
+    expect(result.current.loading).toBe(false);
+    expect(result.current.error).toBeNull();
+    expect(result.current.done).toBe(false);
+  });
+
   it('should maintain state after error', async () => {
     const testError = new Error('error');
     const stream = Stream.fail(testError);
@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
 import * as Stream from 'effect/Stream';
 import * as Effect from 'effect/Effect';
+import * as Runtime from 'effect/Runtime';
+import { useRuntime, reportMissingServices } from './useRuntime';
 
-export function useStream<A, E = never>(
-  stream: Stream.Stream<A, E, never>,
+export function useStream<A, E = never, R = never>(
+  stream: Stream.Stream<A, E, R>,
   options?: {
     bufferSize?: number;
     initialValue?: A;
@@ -15,12 +17,15 @@ export function useStream<A, E = never>(
   latest: A | null;
   loading: boolean;
   error: E | null;
+  defect: unknown;
   done: boolean;
 } {
+  const runtime = useRuntime<R>();
   const [data, setData] = useState<A[]>([]);
   const [latest, setLatest] = useState<A | null>(options?.initialValue ?? null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<E | null>(null);
+  const [defect, setDefect] = useState<unknown>(null);
   const [done, setDone] = useState(false);
 
   useEffect(() => {
@@ -66,9 +71,20 @@ export function useStream<A, E = never>(
       )
     );
 
-    // Run the effect
-    Effect.runPromise(effect).catch(() => {
-      // Errors are already handled in catchAll
+    // Run the effect; defects, such as a missing service, end the stream too
+    Runtime.runPromise(runtime)(
+      reportMissingServices(effect).pipe(
+        Effect.catchAllDefect((die) =>
+          Effect.sync(() => {
+            if (!cancelled) {
+              setDefect(die);
+              setLoading(false);
+            }
+          })
+        )
+      )
+    ).catch(() => {
+      // Failures and defects are already handled; only interruption remains
     });
 
     // Cleanup
@@ -76,13 +92,14 @@ export function useStream<A, E = never>(
       cancelled = true;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [stream, options?.bufferSize, options?.onError, options?.onDone]);
+  }, [stream, options?.bufferSize, options?.onError, options?.onDone, runtime]);
 
   return {
     data,
     latest,
     loading,
     error,
+    defect,
     done,
   };
 }
@@ -1,9 +1,11 @@
 import { useState, useEffect } from 'react';
 import * as Stream from 'effect/Stream';
 import * as Effect from 'effect/Effect';
+import * as Runtime from 'effect/Runtime';
+import { useRuntime, reportMissingServices } from './useRuntime';
 
-export function useStreamValue<A, E = never>(
-  stream: Stream.Stream<A, E, never>,
+export function useStreamValue<A, E = never, R = never>(
+  stream: Stream.Stream<A, E, R>,
   options?: {
     initialValue?: A;
     onError?: (_error: E) => void;
@@ -13,11 +15,14 @@ export function useStreamValue<A, E = never>(
   value: A | null;
   loading: boolean;
   error: E | null;
+  defect: unknown;
   done: boolean;
 } {
+  const runtime = useRuntime<R>();
   const [value, setValue] = useState<A | null>(options?.initialValue ?? null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<E | null>(null);
+  const [defect, setDefect] = useState<unknown>(null);
   const [done, setDone] = useState(false);
 
   useEffect(() => {
@@ -55,9 +60,20 @@ export function useStreamValue<A, E = never>(
       )
     );
 
-    // Run the effect
-    Effect.runPromise(effect).catch(() => {
-      // Errors are already handled in catchAll
+    // Run the effect; defects, such as a missing service, end the stream too
+    Runtime.runPromise(runtime)(
+      reportMissingServices(effect).pipe(
+        Effect.catchAllDefect((die) =>
+          Effect.sync(() => {
+            if (!cancelled) {
+              setDefect(die);
+              setLoading(false);
+            }
+          })
+        )
+      )
+    ).catch(() => {
+      // Failures and defects are already handled; only interruption remains
     });
 
     // Cleanup
@@ -65,12 +81,13 @@ export function useStreamValue<A, E = never>(
       cancelled = true;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [stream, options?.onError, options?.onDone]);
+  }, [stream, options?.onError, options?.onDone, runtime]);
 
   return {
     value,
     loading,
     error,
+    defect,
     done,
   };
 }